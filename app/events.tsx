@@ -88,6 +88,26 @@ export default function EventsScreen() {
             <Text style={styles.detailLabel}>Sequence:</Text>
             <Text style={styles.detailValue}>{item.sequence}</Text>
           </View>
+          <View style={styles.detailRow}>
+            <Text style={styles.detailLabel}>Global ID:</Text>
+            <Text style={styles.detailValue}>{item.globalId}</Text>
+          </View>
+          {item.correlationId && item.correlationId !== item.id && (
+            <View style={styles.detailRow}>
+              <Text style={styles.detailLabel}>Correlation ID:</Text>
+              <Text style={styles.detailValue}>
+                {item.correlationId.slice(-8)}
+              </Text>
+            </View>
+          )}
+          {item.causationId && (
+            <View style={styles.detailRow}>
+              <Text style={styles.detailLabel}>Caused By:</Text>
+              <Text style={styles.detailValue}>
+                {item.causationId.slice(-8)}
+              </Text>
+            </View>
+          )}
           <View style={styles.detailRow}>
             <Text style={styles.detailLabel}>Lamport Clock:</Text>
             <Text style={styles.detailValue}>{item.lamportClock}</Text>
@@ -1,6 +1,9 @@
+import { CloudSyncService } from "@/services/CloudSyncService";
+import { ConnectionService } from "@/services/ConnectionService";
 import { DatabaseService } from "@/services/DatabaseService";
 import { DeviceService } from "@/services/DeviceService";
 import { JournalService } from "@/services/JournalService";
+import { LamportClockService } from "@/services/LamportClockService";
 import { OutboxService } from "@/services/OutboxService";
 import { isRelay } from "@/services/TcpService";
 import { useEffect, useState } from "react";
@@ -33,6 +36,9 @@ export default function Index() {
         const deviceInfo = await DeviceService.getDeviceInfo();
         console.log("📱 Device initialized:", deviceInfo);
 
+        // Step 1b: Load the persisted lamport clock
+        await LamportClockService.initialize();
+
         // Step 2: Initialize today's journal if relay
         if (isRelay) {
           const journal = await JournalService.getOrCreateTodaysJournal();
@@ -43,6 +49,15 @@ export default function Index() {
         const outbox = await OutboxService.getOrCreateTodaysOutbox();
         console.log("✅ Today's outbox initialized:", outbox.date);
 
+        // Step 4: Upload closed journals to head office if relay
+        if (isRelay) {
+          CloudSyncService.start();
+        }
+
+        // Step 5: Keep the TCP connection for the app's lifetime; a till
+        // reconnects to the relay it last connected to
+        await ConnectionService.start();
+
         setIsInitialized(true);
       } catch (error) {
         console.error("❌ Failed to initialize app:", error);
@@ -51,6 +66,11 @@ export default function Index() {
     };
 
     initializeApp();
+
+    return () => {
+      CloudSyncService.stop();
+      ConnectionService.stop();
+    };
   }, []);
 
   const handleResetDatabase = () => {
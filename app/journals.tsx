@@ -2,15 +2,19 @@ import { journalsCollection } from "@/db";
 import Event from "@/models/Event";
 import type { JournalStatus, JournalSource } from "@/models/Journal";
 import Journal from "@/models/Journal";
+import { CloudSyncService } from "@/services/CloudSyncService";
+import { isRelay } from "@/services/TcpService";
 import { Q } from "@nozbe/watermelondb";
 import React, { useEffect, useState } from "react";
 import {
   ActivityIndicator,
+  Alert,
   FlatList,
   RefreshControl,
   ScrollView,
   StyleSheet,
   Text,
+  TouchableOpacity,
   View,
 } from "react-native";
 
@@ -23,6 +27,7 @@ export default function JournalsScreen() {
   const [journals, setJournals] = useState<JournalWithEvents[]>([]);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
+  const [uploading, setUploading] = useState(false);
 
   useEffect(() => {
     const loadJournals = async () => {
@@ -97,6 +102,30 @@ export default function JournalsScreen() {
     setRefreshing(false);
   };
 
+  const uploadToCloud = async () => {
+    setUploading(true);
+    try {
+      const result = await CloudSyncService.uploadPendingJournals();
+      if (result.failures.length > 0) {
+        const errors = result.failures.map((f) => f.error).join("\n");
+        Alert.alert(
+          "Upload Incomplete",
+          `${result.failures.length} journal(s) could not be uploaded and will be retried.\n\n${errors}`
+        );
+      } else {
+        Alert.alert(
+          "Upload Complete",
+          `${result.journalsUploaded} journal(s) uploaded with ${result.eventsUploaded} event(s).`
+        );
+      }
+    } catch (error) {
+      console.error("Error uploading journals:", error);
+      Alert.alert("Error", "Failed to upload journals. Please try again.");
+    } finally {
+      setUploading(false);
+    }
+  };
+
   const formatDate = (timestamp: number | undefined): string => {
     if (!timestamp) return "N/A";
     return new Date(timestamp).toLocaleString();
@@ -257,6 +286,14 @@ export default function JournalsScreen() {
               </Text>
             </View>
           )}
+          {journal.closingHash && (
+            <View style={styles.detailRow}>
+              <Text style={styles.detailLabel}>Closing Hash:</Text>
+              <Text style={styles.detailValue}>
+                {journal.closingHash.slice(0, 16)}…
+              </Text>
+            </View>
+          )}
           <View style={styles.detailRow}>
             <Text style={styles.detailLabel}>Created At:</Text>
             <Text style={styles.detailValue}>
@@ -312,6 +349,20 @@ export default function JournalsScreen() {
               {journals.length} journal{journals.length !== 1 ? "s" : ""} found
             </Text>
           </View>
+          {isRelay && (
+            <TouchableOpacity
+              style={styles.uploadButton}
+              onPress={uploadToCloud}
+              disabled={uploading}
+              activeOpacity={0.7}
+            >
+              {uploading ? (
+                <ActivityIndicator size="small" color="#2196F3" />
+              ) : (
+                <Text style={styles.uploadButtonText}>Upload</Text>
+              )}
+            </TouchableOpacity>
+          )}
         </View>
       </View>
       {journals.length === 0 ? (
@@ -374,6 +425,25 @@ const styles = StyleSheet.create({
     color: "#E3F2FD",
     opacity: 0.9,
   },
+  uploadButton: {
+    backgroundColor: "#FFFFFF",
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 6,
+    shadowColor: "#000",
+    shadowOffset: {
+      width: 0,
+      height: 1,
+    },
+    shadowOpacity: 0.1,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  uploadButtonText: {
+    color: "#2196F3",
+    fontSize: 15,
+    fontWeight: "600",
+  },
   loadingText: {
     marginTop: 12,
     fontSize: 15,
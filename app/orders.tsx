@@ -1,10 +1,14 @@
-import { ordersCollection } from "@/db";
+import { conflictsCollection, ordersCollection } from "@/db";
+import Conflict from "@/models/Conflict";
 import Order from "@/models/Order";
+import { CommandRejectedError } from "@/services/CommandService";
+import { ConflictService } from "@/services/ConflictService";
 import { OrderService } from "@/services/OrderService";
 import { Q } from "@nozbe/watermelondb";
 import React, { useEffect, useState } from "react";
 import {
   ActivityIndicator,
+  Alert,
   FlatList,
   RefreshControl,
   StyleSheet,
@@ -19,6 +23,7 @@ export default function OrdersScreen() {
   const [orders, setOrders] = useState<Order[]>([]);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
+  const [conflicts, setConflicts] = useState<Conflict[]>([]);
 
   useEffect(() => {
     const subscription = ordersCollection
@@ -34,6 +39,16 @@ export default function OrdersScreen() {
     return () => subscription.unsubscribe();
   }, []);
 
+  // Conflicts resolved automatically, waiting for a manager's review
+  useEffect(() => {
+    const subscription = conflictsCollection
+      .query(Q.where("reviewed_at", null), Q.sortBy("created_at", Q.asc))
+      .observe()
+      .subscribe(setConflicts);
+
+    return () => subscription.unsubscribe();
+  }, []);
+
   const onRefresh = async () => {
     setRefreshing(true);
     // The observe subscription will automatically update when data changes
@@ -49,6 +64,32 @@ export default function OrdersScreen() {
     }
   };
 
+  const runOrderAction = async (
+    title: string,
+    action: () => Promise<Order>
+  ) => {
+    try {
+      await action();
+    } catch (error) {
+      if (error instanceof CommandRejectedError) {
+        Alert.alert(
+          title,
+          error.violations.map((violation) => violation.message).join("\n")
+        );
+      } else {
+        console.error(`${title}:`, error);
+      }
+    }
+  };
+
+  const markConflictsReviewed = async (orderId: string) => {
+    try {
+      await ConflictService.markEntityReviewed("order", orderId);
+    } catch (error) {
+      console.error("Error marking conflicts as reviewed:", error);
+    }
+  };
+
   const formatDate = (timestamp: number | undefined): string => {
     if (!timestamp) return "N/A";
     return new Date(timestamp).toLocaleString();
@@ -72,6 +113,9 @@ export default function OrdersScreen() {
   };
 
   const renderOrderItem = ({ item }: { item: Order }) => {
+    const orderConflicts = conflicts.filter(
+      (conflict) => conflict.entityId === item.id
+    );
     let items: any[] = [];
     try {
       items = JSON.parse(item.itemsJson);
@@ -216,6 +260,56 @@ export default function OrdersScreen() {
               </Text>
             </View>
           </View>
+
+          {orderConflicts.length > 0 && (
+            <View style={styles.conflictSection}>
+              <Text style={styles.conflictTitle}>
+                ⚠️ {orderConflicts.length} concurrent edit
+                {orderConflicts.length !== 1 ? "s" : ""} resolved
+              </Text>
+              {orderConflicts.map((conflict) => (
+                <Text key={conflict.id} style={styles.conflictDetail}>
+                  {conflict.resolution.replace(/_/g, " ")}: {conflict.detail}
+                </Text>
+              ))}
+              <TouchableOpacity
+                style={styles.reviewButton}
+                onPress={() => markConflictsReviewed(item.id)}
+                activeOpacity={0.7}
+              >
+                <Text style={styles.reviewButtonText}>Mark Reviewed</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+
+          {item.status === "open" && (
+            <View style={styles.actionRow}>
+              <TouchableOpacity
+                style={styles.actionButton}
+                onPress={() =>
+                  runOrderAction("Cannot close order", () =>
+                    OrderService.closeOrder(item.id)
+                  )
+                }
+                activeOpacity={0.7}
+              >
+                <Text style={styles.actionButtonText}>Close</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.actionButton, styles.voidButton]}
+                onPress={() =>
+                  runOrderAction("Cannot void order", () =>
+                    OrderService.voidOrder(item.id)
+                  )
+                }
+                activeOpacity={0.7}
+              >
+                <Text style={[styles.actionButtonText, styles.voidButtonText]}>
+                  Void
+                </Text>
+              </TouchableOpacity>
+            </View>
+          )}
         </View>
       </View>
     );
@@ -509,4 +603,59 @@ const styles = StyleSheet.create({
     borderTopWidth: 1,
     borderTopColor: "#E0E0E0",
   },
+  actionRow: {
+    flexDirection: "row",
+    justifyContent: "flex-end",
+    marginTop: 12,
+    gap: 8,
+  },
+  actionButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: "#2196F3",
+  },
+  actionButtonText: {
+    color: "#2196F3",
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  voidButton: {
+    borderColor: "#F44336",
+  },
+  voidButtonText: {
+    color: "#F44336",
+  },
+  conflictSection: {
+    marginTop: 12,
+    padding: 10,
+    borderRadius: 6,
+    backgroundColor: "#FFF8E1",
+  },
+  conflictTitle: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#F57C00",
+    marginBottom: 4,
+  },
+  conflictDetail: {
+    fontSize: 13,
+    color: "#616161",
+    marginBottom: 2,
+  },
+  reviewButton: {
+    alignSelf: "flex-end",
+    marginTop: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: "#F57C00",
+  },
+  reviewButtonText: {
+    color: "#F57C00",
+    fontSize: 13,
+    fontWeight: "600",
+  },
 });
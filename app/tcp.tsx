@@ -1,4 +1,4 @@
-import React, { useState } from "react";
+import React, { useCallback, useEffect, useState } from "react";
 import {
   Alert,
   ScrollView,
@@ -8,12 +8,22 @@ import {
   TouchableOpacity,
   View,
 } from "react-native";
+import { PAIRING_CODE_DIGITS } from "../constants/protocol";
 import { useTcpService } from "../hooks/useTcpService";
+import { DeviceService } from "../services/DeviceService";
+import { IdentityKeyService } from "../services/IdentityKeyService";
+import {
+  PairedDevice,
+  PairingCode,
+  PairingService,
+} from "../services/PairingService";
+import { ReconnectService } from "../services/ReconnectService";
 import {
   formatConnectionString,
   isValidIpAddress,
   isValidPort,
 } from "../utils/NetworkUtils";
+import { keyFingerprint } from "../utils/SecureChannel";
 
 export default function TcpConnectionScreen() {
   const {
@@ -26,11 +36,16 @@ export default function TcpConnectionScreen() {
     connectedClientsInfo,
     messages,
     isConnected,
+    relayUnresponsive,
     error,
+    reconnecting,
+    attempt,
+    nextRetryAt,
     startServer,
     connectToServer,
     sendMessage,
     disconnect,
+    unpairDevice,
     getClientInfo,
   } = useTcpService();
 
@@ -38,6 +53,43 @@ export default function TcpConnectionScreen() {
   const [clientHost, setClientHost] = useState("");
   const [clientPort, setClientPort] = useState("8080");
   const [messageText, setMessageText] = useState("");
+  const [pairingCodeInput, setPairingCodeInput] = useState("");
+  const [groupsInput, setGroupsInput] = useState(() =>
+    DeviceService.getGroups().join(", ")
+  );
+  const [pairingCode, setPairingCode] = useState<PairingCode | null>(null);
+  const [pairedDevices, setPairedDevices] = useState<PairedDevice[]>([]);
+  const [fingerprint, setFingerprint] = useState("");
+
+  // This device's key fingerprint, for staff to compare with the peer's
+  useEffect(() => {
+    IdentityKeyService.getFingerprint()
+      .then(setFingerprint)
+      .catch((err) => console.error("Error loading key fingerprint:", err));
+  }, []);
+
+  // Fill in the relay this till last connected to
+  useEffect(() => {
+    ReconnectService.getLastRelayAddress()
+      .then((address) => {
+        if (address) {
+          setClientHost(address.host);
+          setClientPort(String(address.port));
+        }
+      })
+      .catch((err) => console.error("Error loading relay address:", err));
+  }, []);
+
+  const loadPairedDevices = useCallback(async () => {
+    setPairedDevices(await PairingService.getPairedDevices());
+  }, []);
+
+  // The relay lists its paired tills; a new till shows up once it joined
+  useEffect(() => {
+    if (role === "server") {
+      loadPairedDevices();
+    }
+  }, [role, connectedClients, loadPairedDevices]);
 
   const handleStartServer = async () => {
     const port = parseInt(serverPort, 10);
@@ -76,7 +128,19 @@ export default function TcpConnectionScreen() {
     }
 
     try {
-      await connectToServer(clientHost, port);
+      // Sent with the join, so the relay can route group messages here
+      await DeviceService.setGroups(
+        groupsInput
+          .split(",")
+          .map((group) => group.trim())
+          .filter(Boolean)
+      );
+      await connectToServer(
+        clientHost,
+        port,
+        pairingCodeInput.trim() || undefined
+      );
+      setPairingCodeInput("");
       Alert.alert(
         "Connected",
         `Connected to ${formatConnectionString(clientHost, port)}`
@@ -86,6 +150,28 @@ export default function TcpConnectionScreen() {
     }
   };
 
+  const handleCreatePairingCode = () => {
+    setPairingCode(PairingService.createPairingCode());
+  };
+
+  const handleUnpair = (pairedDeviceId: string) => {
+    Alert.alert(
+      "Unpair Till",
+      "This till will need a new pairing code before it can connect again.",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Unpair",
+          style: "destructive",
+          onPress: async () => {
+            await unpairDevice(pairedDeviceId);
+            await loadPairedDevices();
+          },
+        },
+      ]
+    );
+  };
+
   const handleSendMessage = () => {
     if (!messageText.trim()) {
       Alert.alert("Empty Message", "Please enter a message");
@@ -110,8 +196,25 @@ export default function TcpConnectionScreen() {
     ]);
   };
 
+  const formatTime = (time: number) => new Date(time).toLocaleTimeString();
+
   const renderIdleState = () => (
     <View style={styles.section}>
+      {reconnecting && (
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Reconnecting to Relay</Text>
+          <Text style={styles.cardDescription}>
+            {nextRetryAt
+              ? `Attempt ${attempt} at ${formatTime(nextRetryAt)}`
+              : `Attempt ${attempt} in progress`}
+          </Text>
+
+          <TouchableOpacity style={styles.dangerButton} onPress={disconnect}>
+            <Text style={styles.dangerButtonText}>Stop Reconnecting</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
       <View style={styles.card}>
         <Text style={styles.cardTitle}>Start as Server (Relay)</Text>
         <Text style={styles.cardDescription}>
@@ -157,6 +260,23 @@ export default function TcpConnectionScreen() {
           keyboardType="number-pad"
         />
 
+        <TextInput
+          style={styles.input}
+          placeholder="Pairing code (first connection only)"
+          value={pairingCodeInput}
+          onChangeText={setPairingCodeInput}
+          keyboardType="number-pad"
+          maxLength={PAIRING_CODE_DIGITS}
+        />
+
+        <TextInput
+          style={styles.input}
+          placeholder="Groups, comma-separated (e.g. kitchen)"
+          value={groupsInput}
+          onChangeText={setGroupsInput}
+          autoCapitalize="none"
+        />
+
         <TouchableOpacity
           style={styles.primaryButton}
           onPress={handleConnectToServer}
@@ -172,7 +292,11 @@ export default function TcpConnectionScreen() {
       <View style={styles.statusCard}>
         <Text style={styles.statusLabel}>Status</Text>
         <Text style={styles.statusValue}>
-          {role === "server" ? "🟢 Server Running" : "🟢 Connected to Server"}
+          {role === "server"
+            ? "🟢 Server Running"
+            : relayUnresponsive
+            ? "🟠 Relay Not Responding"
+            : "🟢 Connected to Server"}
         </Text>
 
         <Text style={styles.statusLabel}>Device ID</Text>
@@ -184,6 +308,9 @@ export default function TcpConnectionScreen() {
         <Text style={styles.statusLabel}>Venue ID</Text>
         <Text style={styles.statusValueSmall}>{venueId}</Text>
 
+        <Text style={styles.statusLabel}>Key Fingerprint</Text>
+        <Text style={styles.statusValueSmall}>{fingerprint}</Text>
+
         {connectionInfo && (
           <>
             <Text style={styles.statusLabel}>Connection</Text>
@@ -196,6 +323,24 @@ export default function TcpConnectionScreen() {
           </>
         )}
 
+        {role === "client" && connectionInfo?.appVersion && (
+          <>
+            <Text style={styles.statusLabel}>Relay App Version</Text>
+            <Text style={styles.statusValueSmall}>
+              {connectionInfo.appVersion}
+            </Text>
+          </>
+        )}
+
+        {role === "client" && connectionInfo?.fingerprint && (
+          <>
+            <Text style={styles.statusLabel}>Relay Key Fingerprint</Text>
+            <Text style={styles.statusValueSmall}>
+              {connectionInfo.fingerprint}
+            </Text>
+          </>
+        )}
+
         {role === "server" && (
           <>
             <Text style={styles.statusLabel}>Connected Clients</Text>
@@ -211,6 +356,53 @@ export default function TcpConnectionScreen() {
         </TouchableOpacity>
       </View>
 
+      {role === "server" && (
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Pair a Till</Text>
+          <Text style={styles.cardDescription}>
+            Enter this one-time code on the till when it connects. Once
+            connected, the till shows the key fingerprint of this relay:{" "}
+            {fingerprint}
+          </Text>
+
+          {pairingCode && pairingCode.expiresAt > Date.now() && (
+            <>
+              <Text style={styles.pairingCode}>{pairingCode.code}</Text>
+              <Text style={styles.clientMeta}>
+                Valid until{" "}
+                {new Date(pairingCode.expiresAt).toLocaleTimeString()}
+              </Text>
+            </>
+          )}
+
+          <TouchableOpacity
+            style={[styles.primaryButton, styles.pairingButton]}
+            onPress={handleCreatePairingCode}
+          >
+            <Text style={styles.primaryButtonText}>New Pairing Code</Text>
+          </TouchableOpacity>
+
+          {pairedDevices.map((device) => (
+            <View key={device.deviceId} style={styles.clientItem}>
+              <View style={styles.clientDetails}>
+                <Text style={styles.clientId}>{device.deviceId}</Text>
+                <Text style={styles.clientMeta}>
+                  Paired {new Date(device.pairedAt).toLocaleString()}
+                </Text>
+                {device.publicKey && (
+                  <Text style={styles.clientMeta}>
+                    Key: {keyFingerprint(device.publicKey)}
+                  </Text>
+                )}
+              </View>
+              <TouchableOpacity onPress={() => handleUnpair(device.deviceId)}>
+                <Text style={styles.unpairText}>Unpair</Text>
+              </TouchableOpacity>
+            </View>
+          ))}
+        </View>
+      )}
+
       {role === "server" && connectedClients.length > 0 && (
         <View style={styles.card}>
           <Text style={styles.cardTitle}>Connected Clients</Text>
@@ -231,6 +423,21 @@ export default function TcpConnectionScreen() {
                       Venue: {clientInfo.venueId}
                     </Text>
                   )}
+                  {clientInfo?.appVersion && (
+                    <Text style={styles.clientMeta}>
+                      App: {clientInfo.appVersion}
+                    </Text>
+                  )}
+                  {clientInfo?.groups && clientInfo.groups.length > 0 && (
+                    <Text style={styles.clientMeta}>
+                      Groups: {clientInfo.groups.join(", ")}
+                    </Text>
+                  )}
+                  {clientInfo?.fingerprint && (
+                    <Text style={styles.clientMeta}>
+                      Key: {clientInfo.fingerprint}
+                    </Text>
+                  )}
                 </View>
               </View>
             );
@@ -451,6 +658,23 @@ const styles = StyleSheet.create({
     color: "#666",
     marginTop: 2,
   },
+  pairingCode: {
+    fontSize: 32,
+    fontWeight: "700",
+    color: "#333",
+    fontFamily: "monospace",
+    letterSpacing: 6,
+    textAlign: "center",
+    marginVertical: 8,
+  },
+  pairingButton: {
+    marginTop: 12,
+  },
+  unpairText: {
+    fontSize: 13,
+    color: "#FF3B30",
+    fontWeight: "600",
+  },
   messageList: {
     maxHeight: 300,
   },
@@ -0,0 +1,18 @@
+// Head-office backend; run `npm run mock-cloud` for a local one
+export const CLOUD_SYNC_URL =
+  process.env.EXPO_PUBLIC_CLOUD_SYNC_URL ?? "http://localhost:4000";
+
+// Journal events per upload request
+export const CLOUD_UPLOAD_BATCH_SIZE = 100;
+
+// Attempts per request before giving up until the next sync
+export const CLOUD_MAX_ATTEMPTS = 5;
+
+// Delay before the first retry, doubled after each failed attempt
+export const CLOUD_RETRY_BASE_DELAY_MS = 1000;
+
+// How often the relay syncs with the cloud while the app is running
+export const CLOUD_SYNC_INTERVAL_MS = 5 * 60 * 1000;
+
+// Head-office events per pull request
+export const CLOUD_PULL_PAGE_SIZE = 100;
@@ -18,6 +18,10 @@ export const COFFEE_SHOP_MENU = [
   { id: "item-016", name: "Bagel & Cream Cheese", priceCents: 520 },
 ];
 
+// Tax and tronc rates applied to an order's subtotal
+export const TAX_RATE = 0.1;
+export const TRONC_RATE = 0.12;
+
 // Helper function to generate random orders
 export const generateRandomOrder = () => {
   // Pick 1-4 random items
@@ -43,8 +47,8 @@ export const generateRandomOrder = () => {
     (sum, item) => sum + item.subtotalCents,
     0
   );
-  const tax = Math.round(subtotal * 0.1);
-  const tronc = Math.round(subtotal * 0.12);
+  const tax = Math.round(subtotal * TAX_RATE);
+  const tronc = Math.round(subtotal * TRONC_RATE);
 
   return {
     status: "open" as const,
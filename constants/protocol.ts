@@ -0,0 +1,77 @@
+// Largest TCP message frame accepted; a full sync batch stays well below it
+export const MAX_FRAME_BYTES = 4 * 1024 * 1024;
+
+// Version of the TCP protocol this app speaks; bump on breaking changes
+// 2: tills authenticate with a paired secret and every message is signed
+// 3: frames are encrypted after a key exchange in join and welcome
+// 4: event batches and catch-up are RPC calls
+// 5: messages can be addressed to a device, role or group
+// 6: the pairing secret is bound to the connection's key exchange
+export const PROTOCOL_VERSION = 6;
+
+// Oldest protocol version still accepted from a peer
+export const MIN_PROTOCOL_VERSION = 6;
+
+// How long a till waits for the relay to answer its join
+export const HANDSHAKE_TIMEOUT_MS = 10000;
+
+// How long a till waits for the relay to answer an RPC call by default
+export const RPC_TIMEOUT_MS = 10000;
+
+// Every message type this app understands, announced in the handshake
+export const MESSAGE_TYPES = [
+  "sync",
+  "update",
+  "heartbeat",
+  "join",
+  "welcome",
+  "reject",
+  "authenticate",
+  "authenticated",
+  "leave",
+  "journal_event",
+  "rpc_request",
+  "rpc_response",
+  "delivery_failed",
+] as const;
+
+export type MessageType = (typeof MESSAGE_TYPES)[number];
+
+// Message types a peer must understand to take part in syncing
+export const REQUIRED_MESSAGE_TYPES: MessageType[] = [
+  "join",
+  "welcome",
+  "reject",
+  "authenticate",
+  "authenticated",
+  "leave",
+  "heartbeat",
+  "journal_event",
+  "rpc_request",
+  "rpc_response",
+  "delivery_failed",
+];
+
+// Digits in the one-time code the relay shows for pairing a till
+export const PAIRING_CODE_DIGITS = 6;
+
+// How long a pairing code can be used
+export const PAIRING_CODE_TTL_MS = 5 * 60 * 1000;
+
+// Wrong pairing attempts before the code is withdrawn
+export const PAIRING_MAX_ATTEMPTS = 5;
+
+// Delay before a till's first attempt to reconnect to the relay; doubles
+// with every failed attempt up to the maximum
+export const RECONNECT_BASE_DELAY_MS = 1000;
+export const RECONNECT_MAX_DELAY_MS = 60 * 1000;
+
+// How often both ends send a heartbeat
+export const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+
+// Silence after which a peer counts as gone: the relay evicts the till,
+// a till shows the relay as unresponsive (and reconnects after twice this)
+export const PEER_TIMEOUT_MS = 90 * 1000;
+
+// How often peers are checked for silence
+export const LIVENESS_CHECK_INTERVAL_MS = 5 * 1000;
@@ -0,0 +1,34 @@
+import { Database } from "@nozbe/watermelondb";
+import LokiJSAdapter from "@nozbe/watermelondb/adapters/lokijs";
+import logger from "@nozbe/watermelondb/utils/common/logger";
+
+import Conflict from "@/models/Conflict";
+import Event from "@/models/Event";
+import Journal from "@/models/Journal";
+import Order from "@/models/Order";
+import Outbox from "@/models/Outbox";
+import migrations from "../migrations";
+import schema from "../schema";
+
+// In-memory database for tests, with the same schema as the app's
+logger.silence();
+const adapter = new LokiJSAdapter({
+  schema,
+  migrations,
+  useWebWorker: false,
+  useIncrementalIndexedDB: false,
+  extraLokiOptions: { autosave: false },
+});
+
+const database = new Database({
+  adapter,
+  modelClasses: [Event, Order, Outbox, Journal, Conflict],
+});
+
+export default database;
+
+export const eventsCollection = database.get<Event>("events");
+export const ordersCollection = database.get<Order>("orders");
+export const outboxesCollection = database.get<Outbox>("outboxes");
+export const journalsCollection = database.get<Journal>("journals");
+export const conflictsCollection = database.get<Conflict>("conflicts");
@@ -1,6 +1,7 @@
 import { Database } from "@nozbe/watermelondb";
 import SQLiteAdapter from "@nozbe/watermelondb/adapters/sqlite";
 
+import Conflict from "@/models/Conflict";
 import Event from "@/models/Event";
 import Journal from "@/models/Journal";
 import Order from "@/models/Order";
@@ -27,7 +28,7 @@ const adapter = new SQLiteAdapter({
 // Then, make a Watermelon database from it!
 const database = new Database({
   adapter,
-  modelClasses: [Event, Order, Outbox, Journal],
+  modelClasses: [Event, Order, Outbox, Journal, Conflict],
 });
 
 export default database;
@@ -36,3 +37,4 @@ export const eventsCollection = database.get<Event>("events");
 export const ordersCollection = database.get<Order>("orders");
 export const outboxesCollection = database.get<Outbox>("outboxes");
 export const journalsCollection = database.get<Journal>("journals");
+export const conflictsCollection = database.get<Conflict>("conflicts");
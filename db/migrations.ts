@@ -131,5 +131,95 @@ export default schemaMigrations({
         }),
       ],
     },
+    {
+      toVersion: 8,
+      steps: [
+        addColumns({
+          table: "events",
+          columns: [{ name: "schema_version", type: "number" }],
+        }),
+        // Events written before versioning use the original (v1) payloads
+        unsafeExecuteSql("UPDATE events SET schema_version = 1;"),
+      ],
+    },
+    {
+      toVersion: 9,
+      steps: [
+        addColumns({
+          table: "events",
+          columns: [
+            {
+              name: "journal_sequence",
+              type: "number",
+              isIndexed: true,
+              isOptional: true,
+            },
+            { name: "previous_hash", type: "string", isOptional: true },
+            { name: "hash", type: "string", isOptional: true },
+          ],
+        }),
+        addColumns({
+          table: "journals",
+          columns: [{ name: "closing_hash", type: "string", isOptional: true }],
+        }),
+      ],
+    },
+    {
+      toVersion: 10,
+      steps: [
+        addColumns({
+          table: "events",
+          columns: [{ name: "global_id", type: "string", isIndexed: true }],
+        }),
+        // Existing sequences are unique per device, so they form valid IDs
+        unsafeExecuteSql(
+          "UPDATE events SET global_id = device_id || ':' || sequence;"
+        ),
+      ],
+    },
+    {
+      toVersion: 11,
+      steps: [
+        addColumns({
+          table: "events",
+          columns: [
+            { name: "causation_id", type: "string", isOptional: true },
+            {
+              name: "correlation_id",
+              type: "string",
+              isIndexed: true,
+              isOptional: true,
+            },
+          ],
+        }),
+      ],
+    },
+    {
+      toVersion: 12,
+      steps: [
+        addColumns({
+          table: "events",
+          columns: [
+            { name: "base_event_id", type: "string", isOptional: true },
+          ],
+        }),
+        createTable({
+          name: "conflicts",
+          columns: [
+            { name: "entity", type: "string" },
+            { name: "entity_id", type: "string", isIndexed: true },
+            { name: "event_id", type: "string", isIndexed: true },
+            { name: "conflicting_event_id", type: "string" },
+            { name: "event_type", type: "string" },
+            { name: "resolution", type: "string" },
+            { name: "detail", type: "string" },
+            { name: "reviewed_at", type: "number", isOptional: true },
+            { name: "reviewed_by", type: "string", isOptional: true },
+            { name: "created_at", type: "number" },
+            { name: "updated_at", type: "number" },
+          ],
+        }),
+      ],
+    },
   ],
 });
@@ -1,12 +1,13 @@
 import { appSchema, tableSchema } from "@nozbe/watermelondb";
 
 export default appSchema({
-  version: 7,
+  version: 12,
   tables: [
     tableSchema({
       name: "events",
       columns: [
         { name: "sequence", type: "number" },
+        { name: "global_id", type: "string", isIndexed: true },
         { name: "entity", type: "string" },
         { name: "entity_id", type: "string" },
         { name: "type", type: "string" },
@@ -19,9 +20,18 @@ export default appSchema({
         { name: "updated_at", type: "number" },
         { name: "applied_at", type: "number", isOptional: true },
         { name: "lamport_clock", type: "number" },
+        { name: "schema_version", type: "number" },
         { name: "status", type: "string" },
         { name: "error_message", type: "string", isOptional: true },
         { name: "acked_at", type: "number", isOptional: true },
+        { name: "causation_id", type: "string", isOptional: true },
+        {
+          name: "correlation_id",
+          type: "string",
+          isIndexed: true,
+          isOptional: true,
+        },
+        { name: "base_event_id", type: "string", isOptional: true },
         {
           name: "outbox_id",
           type: "string",
@@ -34,6 +44,14 @@ export default appSchema({
           isIndexed: true,
           isOptional: true,
         },
+        {
+          name: "journal_sequence",
+          type: "number",
+          isIndexed: true,
+          isOptional: true,
+        },
+        { name: "previous_hash", type: "string", isOptional: true },
+        { name: "hash", type: "string", isOptional: true },
       ],
     }),
     tableSchema({
@@ -85,6 +103,23 @@ export default appSchema({
         { name: "device_id", type: "string" },
         { name: "venue_id", type: "string" },
         { name: "synced_at", type: "number", isOptional: true },
+        { name: "closing_hash", type: "string", isOptional: true },
+        { name: "created_at", type: "number" },
+        { name: "updated_at", type: "number" },
+      ],
+    }),
+    tableSchema({
+      name: "conflicts",
+      columns: [
+        { name: "entity", type: "string" },
+        { name: "entity_id", type: "string", isIndexed: true },
+        { name: "event_id", type: "string", isIndexed: true },
+        { name: "conflicting_event_id", type: "string" },
+        { name: "event_type", type: "string" },
+        { name: "resolution", type: "string" },
+        { name: "detail", type: "string" },
+        { name: "reviewed_at", type: "number", isOptional: true },
+        { name: "reviewed_by", type: "string", isOptional: true },
         { name: "created_at", type: "number" },
         { name: "updated_at", type: "number" },
       ],
@@ -1,11 +1,16 @@
 import { useCallback, useEffect, useRef, useState } from "react";
+import { ConnectionService } from "../services/ConnectionService";
 import { DeviceService } from "../services/DeviceService";
+import { PairingService } from "../services/PairingService";
+import { ReconnectState } from "../services/ReconnectService";
 import TcpService, {
+  OutgoingTcpMessage,
   TcpConnectionInfo,
   TcpMessage,
   TcpRole,
   TcpServiceDelegate,
 } from "../services/TcpService";
+import { FrameError } from "../utils/MessageFraming";
 
 export interface UseTcpServiceResult {
   role: TcpRole;
@@ -17,13 +22,20 @@ export interface UseTcpServiceResult {
   connectedClientsInfo: Map<string, Partial<TcpConnectionInfo>>;
   messages: TcpMessage[];
   isConnected: boolean;
+  relayUnresponsive: boolean; // Connected, but the relay went silent
   error: Error | null;
+  reconnecting: boolean; // Lost the relay and trying to get it back
+  attempt: number;
+  nextRetryAt: number | null;
   startServer: (port?: number) => Promise<void>;
-  connectToServer: (host: string, port: number) => Promise<void>;
-  sendMessage: (
-    message: Omit<TcpMessage, "deviceId" | "userId" | "venueId" | "timestamp">
-  ) => void;
+  connectToServer: (
+    host: string,
+    port: number,
+    pairingCode?: string
+  ) => Promise<void>;
+  sendMessage: (message: OutgoingTcpMessage) => void;
   disconnect: () => void;
+  unpairDevice: (deviceId: string) => Promise<void>;
   getClientInfo: (clientId: string) => Partial<TcpConnectionInfo> | undefined;
 }
 
@@ -43,78 +55,114 @@ export function useTcpService(): UseTcpServiceResult {
   >(new Map());
   const [messages, setMessages] = useState<TcpMessage[]>([]);
   const [isConnected, setIsConnected] = useState<boolean>(false);
+  const [relayUnresponsive, setRelayUnresponsive] = useState<boolean>(false);
   const [error, setError] = useState<Error | null>(null);
+  const [reconnectState, setReconnectState] = useState<ReconnectState>({
+    reconnecting: false,
+    attempt: 0,
+    nextRetryAt: null,
+  });
 
-  // Initialize TCP service
+  // Follow the app's TCP connection, which outlives this hook
   useEffect(() => {
-    if (!tcpServiceRef.current) {
-      const service = new TcpService();
-      tcpServiceRef.current = service;
+    let service: TcpService;
+    try {
+      service = ConnectionService.getTcpService();
+    } catch (error) {
+      console.error("ConnectionService error: ", error);
+      return;
+    }
+    tcpServiceRef.current = service;
+    const reconnectService = ConnectionService.getReconnectService();
 
-      // Get device identifiers from DeviceService
-      try {
-        setDeviceId(DeviceService.getDeviceId());
-        setUserId(DeviceService.getUserId());
-        setVenueId(DeviceService.getVenueId());
-      } catch (error) {
-        console.error(
-          "DeviceService not initialized. Make sure to call DeviceService.initialize() in your app startup."
-        );
-        console.error("DeviceService error: ", error);
-      }
+    // Get device identifiers from DeviceService
+    try {
+      setDeviceId(DeviceService.getDeviceId());
+      setUserId(DeviceService.getUserId());
+      setVenueId(DeviceService.getVenueId());
+    } catch (error) {
+      console.error(
+        "DeviceService not initialized. Make sure to call DeviceService.initialize() in your app startup."
+      );
+      console.error("DeviceService error: ", error);
+    }
 
-      const delegate: TcpServiceDelegate = {
-        onConnectionEstablished: (info) => {
-          setConnectionInfo(info);
-          setIsConnected(true);
-          setError(null);
-        },
-        onConnectionClosed: () => {
-          setIsConnected(false);
-          setConnectionInfo(null);
-          setRole("none");
-          setConnectedClients([]);
-          setConnectedClientsInfo(new Map());
-        },
-        onMessageReceived: (message) => {
-          setMessages((prev) => [...prev, message]);
-
-          // Update connected clients list if it's in the message
-          if (message.data?.connectedClients) {
-            setConnectedClients(message.data.connectedClients);
-          }
-        },
-        onClientConnected: (clientId, clientInfo) => {
-          setConnectedClients((prev) => [...prev, clientId]);
-          if (clientInfo) {
-            setConnectedClientsInfo((prev) => {
-              const newMap = new Map(prev);
-              newMap.set(clientId, clientInfo);
-              return newMap;
-            });
-          }
-        },
-        onClientDisconnected: (clientId) => {
-          setConnectedClients((prev) => prev.filter((id) => id !== clientId));
+    const delegate: TcpServiceDelegate = {
+      onConnectionEstablished: (info) => {
+        // Also after a reconnect the hook did not start itself
+        setRole(service.getRole());
+        setConnectionInfo(info);
+        setIsConnected(true);
+        setRelayUnresponsive(false);
+        setError(null);
+      },
+      onConnectionClosed: () => {
+        setIsConnected(false);
+        setRelayUnresponsive(false);
+        setConnectionInfo(null);
+        setRole("none");
+        setConnectedClients([]);
+        setConnectedClientsInfo(new Map());
+      },
+      onMessageReceived: (message) => {
+        setMessages((prev) => [...prev, message]);
+
+        // Update connected clients list if it's in the message
+        if (message.data?.connectedClients) {
+          setConnectedClients(message.data.connectedClients);
+        }
+      },
+      onClientConnected: (clientId, clientInfo) => {
+        setConnectedClients((prev) => [...prev, clientId]);
+        if (clientInfo) {
           setConnectedClientsInfo((prev) => {
             const newMap = new Map(prev);
-            newMap.delete(clientId);
+            newMap.set(clientId, clientInfo);
             return newMap;
           });
-        },
-        onError: (err) => {
-          setError(err);
+        }
+      },
+      onClientDisconnected: (clientId) => {
+        setConnectedClients((prev) => prev.filter((id) => id !== clientId));
+        setConnectedClientsInfo((prev) => {
+          const newMap = new Map(prev);
+          newMap.delete(clientId);
+          return newMap;
+        });
+      },
+      onRelayResponsivenessChanged: (responsive) => {
+        setRelayUnresponsive(!responsive);
+      },
+      onDeliveryFailed: (failure) => {
+        setError(new Error(`${failure.type} not delivered: ${failure.reason}`));
+      },
+      onError: (err) => {
+        setError(err);
+        // A bad frame only affects that message or peer; a closed
+        // connection is reported through onConnectionClosed
+        if (!(err instanceof FrameError)) {
           setIsConnected(false);
-        },
-      };
+        }
+      },
+    };
 
-      service.setDelegate(delegate);
-    }
+    // Pick up a connection made before this hook mounted
+    const info = service.getConnectionInfo();
+    setRole(service.getRole());
+    setConnectionInfo(info);
+    setIsConnected(info !== null);
+    setRelayUnresponsive(!service.isRelayResponsive());
+    setConnectedClients(service.getConnectedClients());
+    setConnectedClientsInfo(service.getConnectedClientsInfo());
+    setReconnectState(reconnectService.getState());
+
+    const removeDelegate = service.addDelegate(delegate);
+    const removeListener = reconnectService.addListener(setReconnectState);
 
     return () => {
-      if (tcpServiceRef.current) {
-        tcpServiceRef.current.stop();
-      }
+      removeListener();
+      removeDelegate();
+      tcpServiceRef.current = null;
     };
   }, []);
 
@@ -131,23 +179,26 @@ export function useTcpService(): UseTcpServiceResult {
     }
   }, []);
 
-  const connectToServer = useCallback(async (host: string, port: number) => {
-    try {
-      setError(null);
-      if (tcpServiceRef.current) {
-        await tcpServiceRef.current.connectToServer(host, port);
+  const connectToServer = useCallback(
+    async (host: string, port: number, pairingCode?: string) => {
+      try {
+        setError(null);
+        await ConnectionService.getReconnectService().connect(
+          host,
+          port,
+          pairingCode
+        );
         setRole("client");
+      } catch (err) {
+        setError(err as Error);
+        throw err;
       }
-    } catch (err) {
-      setError(err as Error);
-      throw err;
-    }
-  }, []);
+    },
+    []
+  );
 
   const sendMessage = useCallback(
-    (
-      message: Omit<TcpMessage, "deviceId" | "userId" | "venueId" | "timestamp">
-    ) => {
+    (message: OutgoingTcpMessage) => {
       if (tcpServiceRef.current && isConnected) {
         tcpServiceRef.current.sendMessage(message);
       }
@@ -157,6 +208,9 @@ export function useTcpService(): UseTcpServiceResult {
 
   const disconnect = useCallback(() => {
     if (tcpServiceRef.current) {
+      ConnectionService.getReconnectService()
+        .forget()
+        .catch((err) => console.error("Error forgetting the relay:", err));
       tcpServiceRef.current.stop();
       setRole("none");
       setIsConnected(false);
@@ -168,6 +222,14 @@ export function useTcpService(): UseTcpServiceResult {
     }
   }, []);
 
+  const unpairDevice = useCallback(async (deviceId: string) => {
+    if (tcpServiceRef.current) {
+      await tcpServiceRef.current.unpairClient(deviceId);
+    } else {
+      await PairingService.unpairDevice(deviceId);
+    }
+  }, []);
+
   const getClientInfo = useCallback((clientId: string):
     | Partial<TcpConnectionInfo>
     | undefined => {
@@ -184,11 +246,16 @@ export function useTcpService(): UseTcpServiceResult {
     connectedClientsInfo,
     messages,
     isConnected,
+    relayUnresponsive,
     error,
+    reconnecting: reconnectState.reconnecting,
+    attempt: reconnectState.attempt,
+    nextRetryAt: reconnectState.nextRetryAt,
     startServer,
     connectToServer,
     sendMessage,
     disconnect,
+    unpairDevice,
     getClientInfo,
   };
 }
@@ -0,0 +1,6 @@
+// Native modules tests run without
+jest.mock("@react-native-async-storage/async-storage", () =>
+  require("@react-native-async-storage/async-storage/jest/async-storage-mock")
+);
+jest.mock("react-native-tcp-socket", () => ({}));
+jest.mock("@/db");
@@ -0,0 +1,25 @@
+import { Model } from "@nozbe/watermelondb";
+import { date, readonly, text } from "@nozbe/watermelondb/decorators";
+import { EntityType, EventType } from "./Event";
+
+// How the projection settled two concurrent events
+export type ConflictResolution =
+  | "merged" // Both changes kept (e.g. concurrent item edits)
+  | "last_writer_wins" // The later event by Lamport order replaced the other
+  | "superseded"; // The event was ignored, e.g. after the order was closed
+
+export default class Conflict extends Model {
+  static table = "conflicts";
+
+  @text("entity") entity!: EntityType;
+  @text("entity_id") entityId!: string;
+  @text("event_id") eventId!: string; // The event that arrived concurrently
+  @text("conflicting_event_id") conflictingEventId!: string; // What it did not see
+  @text("event_type") eventType!: EventType;
+  @text("resolution") resolution!: ConflictResolution;
+  @text("detail") detail!: string;
+  @date("reviewed_at") reviewedAt?: number;
+  @text("reviewed_by") reviewedBy?: string;
+  @readonly @date("created_at") createdAt!: number;
+  @readonly @date("updated_at") updatedAt!: number;
+}
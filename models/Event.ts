@@ -44,7 +44,8 @@ export default class Event extends Model {
     journal: { type: "belongs_to", key: "journal_id" },
   } as const;
 
-  @field("sequence") sequence!: number;
+  @field("sequence") sequence!: number; // Per device
+  @text("global_id") globalId!: string; // `${deviceId}:${sequence}`
   @text("entity") entity!: EntityType;
   @text("entity_id") entityId!: string;
   @text("type") type!: EventType;
@@ -57,10 +58,20 @@ export default class Event extends Model {
   @readonly @date("updated_at") updatedAt!: number;
   @date("applied_at") appliedAt?: number;
   @field("lamport_clock") lamportClock!: number;
+  @field("schema_version") schemaVersion!: number;
   @text("status") status!: EventStatus;
   @text("error_message") errorMessage?: string;
   @date("acked_at") ackedAt?: number;
 
+  // The event that caused this one, and the first event of the user action
+  // it belongs to (an event without a cause correlates with itself)
+  @text("causation_id") causationId?: string;
+  @text("correlation_id") correlationId?: string;
+
+  // The entity's latest event known to the writer; events sharing a base
+  // were written concurrently
+  @text("base_event_id") baseEventId?: string;
+
   // Foreign key to outbox
   @text("outbox_id") outboxId?: string;
 
@@ -72,4 +83,9 @@ export default class Event extends Model {
 
   // Relation to get the parent journal
   @relation("journal", "journal_id") journal!: Relation<Journal>;
+
+  // Position and hash chain within the journal (tamper evidence)
+  @field("journal_sequence") journalSequence?: number;
+  @text("previous_hash") previousHash?: string;
+  @text("hash") hash?: string;
 }
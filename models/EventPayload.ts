@@ -0,0 +1,161 @@
+import { EntityType, EventType } from "./Event";
+import { OrderItem } from "./Order";
+
+export type ReservationStatus =
+  | "booked"
+  | "seated"
+  | "completed"
+  | "cancelled"
+  | "no_show";
+
+export type TicketType = "kitchen" | "receipt" | "bill";
+
+export type PaymentMethod = "card" | "cash" | "other";
+
+// Order events
+export interface AddItemPayload {
+  orderId: string;
+  items: OrderItem[];
+  tableId?: string;
+  guestId?: string;
+  reservationId?: string;
+  openedAt?: number;
+}
+
+export interface ChangeQuantityPayload {
+  orderId: string;
+  items: OrderItem[];
+}
+
+export interface CloseCheckPayload {
+  orderId: string;
+  closedAt: number;
+}
+
+export interface VoidItemPayload {
+  orderId: string;
+  voidedAt: number;
+  itemId?: string; // Without an item, the whole order is voided
+}
+
+export interface ApplyDiscountPayload {
+  orderId: string;
+  discountCents: number;
+}
+
+// Reservation events
+export interface CreateReservationPayload {
+  reservationId: string;
+  guestName: string;
+  partySize: number;
+  reservedFor: number;
+  guestId?: string;
+  tableId?: string;
+}
+
+export interface UpdateReservationPayload {
+  reservationId: string;
+  guestName?: string;
+  partySize?: number;
+  reservedFor?: number;
+}
+
+export interface AssignReservationPayload {
+  reservationId: string;
+  tableId: string;
+}
+
+export interface MoveReservationPayload {
+  reservationId: string;
+  toTableId: string;
+  fromTableId?: string;
+  reservedFor?: number;
+}
+
+export interface SetReservationStatusPayload {
+  reservationId: string;
+  status: ReservationStatus;
+}
+
+// Print events
+export interface PrintTicketPayload {
+  printJobId: string;
+  printerId: string;
+  ticketType: TicketType;
+  orderId?: string;
+}
+
+export interface PrintResultPayload {
+  printJobId: string;
+  success: boolean;
+  error?: string;
+}
+
+// Payment events
+export interface PaymentCapturedPayload {
+  paymentId: string;
+  orderId: string;
+  amountCents: number;
+  method: PaymentMethod;
+  tipCents?: number;
+  reference?: string;
+}
+
+export interface PaymentRefundPayload {
+  paymentId: string;
+  orderId: string;
+  amountCents: number;
+  reason?: string;
+}
+
+/**
+ * Payload shape for every event type
+ */
+export interface EventPayloadMap {
+  add_item: AddItemPayload;
+  change_quantity: ChangeQuantityPayload;
+  close_check: CloseCheckPayload;
+  void_item: VoidItemPayload;
+  apply_discount: ApplyDiscountPayload;
+  create_reservation: CreateReservationPayload;
+  update_reservation: UpdateReservationPayload;
+  assign_reservation: AssignReservationPayload;
+  move_reservation: MoveReservationPayload;
+  set_reservation_status: SetReservationStatusPayload;
+  print_ticket: PrintTicketPayload;
+  print_result: PrintResultPayload;
+  payment_captured: PaymentCapturedPayload;
+  payment_refund: PaymentRefundPayload;
+}
+
+export type EventPayload<T extends EventType = EventType> = EventPayloadMap[T];
+
+/**
+ * Discriminated union of event type and payload
+ */
+export type TypedEventPayload = {
+  [T in EventType]: { type: T; payload: EventPayloadMap[T] };
+}[EventType];
+
+/**
+ * An event as it travels between devices
+ * The payload stays serialized so its exact content is preserved.
+ */
+export interface EventEnvelope {
+  id: string;
+  sequence: number;
+  entity: EntityType;
+  entityId: string;
+  type: EventType;
+  payloadJson: string;
+  deviceId: string;
+  relayId: string;
+  userId: string;
+  venueId: string;
+  lamportClock: number;
+  createdAt: number;
+  schemaVersion?: number; // Missing from devices predating versioning (v1)
+  causationId?: string;
+  correlationId?: string;
+  baseEventId?: string;
+}
@@ -20,6 +20,7 @@ export default class Journal extends Model {
   @text("device_id") deviceId!: string;
   @text("venue_id") venueId!: string;
   @date("synced_at") syncedAt?: number;
+  @text("closing_hash") closingHash?: string; // Seals the chain when synced
   @date("created_at") createdAt!: number;
   @date("updated_at") updatedAt!: number;
 
@@ -1,6 +1,17 @@
 import { Model } from "@nozbe/watermelondb";
 import { date, field, readonly, text } from "@nozbe/watermelondb/decorators";
 
+export type OrderStatus = "open" | "closed" | "voided";
+
+export interface OrderItem {
+  id: string;
+  menuItemId: string;
+  name: string;
+  quantity: number;
+  unitPriceCents: number;
+  subtotalCents: number;
+}
+
 export default class Order extends Model {
   static table = "orders";
 
@@ -10,7 +21,7 @@ export default class Order extends Model {
   //   reservations: { type: "belongs_to", key: "reservation_id" },
   // };
 
-  @text("status") status!: "open" | "closed" | "voided";
+  @text("status") status!: OrderStatus;
 
   // Relations
   @text("table_id") tableId?: string;
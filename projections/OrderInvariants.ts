@@ -0,0 +1,87 @@
+// projections/OrderInvariants.ts
+import { OrderState } from "./OrderProjection";
+import { DomainViolation, InvariantSubject } from "./types";
+
+const violation = (code: string, message: string): DomainViolation => ({
+  code,
+  message,
+});
+
+/**
+ * Rules that apply whenever an existing order is changed
+ * A received event written without seeing the close or void is let through:
+ * it is concurrent, and the reducer records it as a superseded conflict.
+ */
+function checkModifiable(
+  state: OrderState,
+  command: InvariantSubject
+): DomainViolation[] {
+  if (command.baseEventId && command.baseEventId !== state.updatedByEventId) {
+    return [];
+  }
+  if (state.status === "voided") {
+    return [violation("order_voided", "This order has been voided.")];
+  }
+  if (state.status === "closed") {
+    return [violation("order_closed", "This order is already closed.")];
+  }
+  return [];
+}
+
+/**
+ * Business rules for order commands, checked against the current state
+ */
+export function checkOrderInvariants(
+  state: OrderState | null,
+  command: InvariantSubject
+): DomainViolation[] {
+  const { type, payload } = command;
+
+  if (!state) {
+    if (type !== "add_item") {
+      return [violation("order_not_found", "This order does not exist.")];
+    }
+    if (!Array.isArray(payload.items) || payload.items.length === 0) {
+      return [violation("order_empty", "An order needs at least one item.")];
+    }
+    return [];
+  }
+
+  switch (type) {
+    case "add_item":
+    case "change_quantity":
+      return checkModifiable(state, command);
+
+    case "apply_discount": {
+      const violations = checkModifiable(state, command);
+      if (payload.discountCents > state.subtotalCents) {
+        violations.push(
+          violation(
+            "discount_exceeds_subtotal",
+            `The discount cannot be larger than the subtotal (${state.subtotalCents} cents).`
+          )
+        );
+      }
+      return violations;
+    }
+
+    case "void_item": {
+      const violations = checkModifiable(state, command);
+      if (
+        payload.itemId &&
+        !state.items.some((item) => item.id === payload.itemId)
+      ) {
+        violations.push(
+          violation("item_not_found", "This item is not on the order.")
+        );
+      }
+      return violations;
+    }
+
+    case "close_check":
+      return checkModifiable(state, command);
+
+    default:
+      return [];
+  }
+}
@@ -0,0 +1,338 @@
+// projections/OrderProjection.ts
+import { TAX_RATE, TRONC_RATE } from "@/constants/orders";
+import { OrderItem, OrderStatus } from "@/models/Order";
+import {
+  ProjectableEvent,
+  ProjectionConflict,
+  parsePayload,
+  toMillis,
+} from "./types";
+
+/**
+ * The parts of an order concurrent edits are merged on, as of one event
+ */
+export interface OrderSnapshot {
+  items: OrderItem[];
+  discountCents: number;
+}
+
+/**
+ * In-memory state of an order, as derived from its events
+ */
+export interface OrderState {
+  id: string;
+  status: OrderStatus;
+  tableId?: string;
+  guestId?: string;
+  reservationId?: string;
+  items: OrderItem[];
+  openedAt: number;
+  closedAt?: number;
+  voidedAt?: number;
+  subtotalCents: number;
+  discountCents: number;
+  taxCents: number;
+  troncCents: number;
+  totalCents: number;
+  createdByEventId: string;
+  updatedByEventId: string;
+  // Fold bookkeeping, not stored on the order row: the order after each
+  // event (to merge against what a writer saw) and the conflicts resolved
+  snapshots: Record<string, OrderSnapshot>;
+  conflicts: ProjectionConflict[];
+}
+
+/**
+ * Calculate subtotal, tax, tronc and total for a set of items
+ */
+export function calculateOrderTotals(
+  items: OrderItem[],
+  discountCents: number
+): Pick<
+  OrderState,
+  "subtotalCents" | "taxCents" | "troncCents" | "totalCents"
+> {
+  const subtotal = items.reduce(
+    (sum, item) =>
+      sum +
+      (typeof item.subtotalCents === "number"
+        ? item.subtotalCents
+        : (item.unitPriceCents || 0) * (item.quantity || 0)),
+    0
+  );
+  const tax = Math.round(subtotal * TAX_RATE);
+  const tronc = Math.round(subtotal * TRONC_RATE);
+
+  return {
+    subtotalCents: subtotal,
+    taxCents: tax,
+    troncCents: tronc,
+    totalCents: subtotal - discountCents + tax + tronc,
+  };
+}
+
+/**
+ * Return a copy of the state with items replaced and totals recalculated
+ */
+function withItems(state: OrderState, items: OrderItem[]): OrderState {
+  return {
+    ...state,
+    items,
+    ...calculateOrderTotals(items, state.discountCents),
+  };
+}
+
+// Event types folded into the order projection
+const ORDER_EVENT_TYPES: ProjectableEvent["type"][] = [
+  "add_item",
+  "change_quantity",
+  "apply_discount",
+  "void_item",
+  "close_check",
+];
+
+function sameItem(a: OrderItem, b: OrderItem): boolean {
+  return (
+    a.quantity === b.quantity &&
+    a.unitPriceCents === b.unitPriceCents &&
+    a.subtotalCents === b.subtotalCents
+  );
+}
+
+function sameItems(a: OrderItem[], b: OrderItem[]): boolean {
+  return (
+    a.length === b.length &&
+    a.every(
+      (item, index) => item.id === b[index].id && sameItem(item, b[index])
+    )
+  );
+}
+
+/**
+ * Three-way merge of item lists: apply a writer's changes (base → theirs)
+ * on top of the current items, keeping lines changed concurrently
+ */
+export function mergeOrderItems(
+  base: OrderItem[],
+  current: OrderItem[],
+  theirs: OrderItem[]
+): OrderItem[] {
+  const baseById = new Map(base.map((item) => [item.id, item]));
+  const theirsById = new Map(theirs.map((item) => [item.id, item]));
+
+  const merged: OrderItem[] = [];
+  for (const item of current) {
+    const baseItem = baseById.get(item.id);
+    const theirItem = theirsById.get(item.id);
+
+    if (!baseItem) {
+      merged.push(theirItem ?? item); // Added concurrently
+    } else if (theirItem) {
+      // The writer's change wins over a line it left untouched
+      merged.push(sameItem(baseItem, theirItem) ? item : theirItem);
+    }
+    // Otherwise the writer removed the line
+  }
+
+  // Lines the writer added
+  for (const item of theirs) {
+    if (!baseById.has(item.id) && !merged.some((m) => m.id === item.id)) {
+      merged.push(item);
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Pure reducer: fold a single order event into the order state.
+ * Returns null while the order has not been opened yet.
+ *
+ * Events written without seeing the order's latest event (their base event
+ * is older) are concurrent and settled per event type: item changes merge,
+ * the first close/void by Lamport order wins, and discounts are
+ * last-writer-wins. Each settled conflict is recorded in the state.
+ */
+export function reduceOrder(
+  state: OrderState | null,
+  event: ProjectableEvent
+): OrderState | null {
+  const payload = parsePayload(event);
+
+  if (!state) {
+    // An order only comes into existence with its first add_item event
+    if (event.type !== "add_item") {
+      return null;
+    }
+
+    const items: OrderItem[] = Array.isArray(payload.items)
+      ? payload.items
+      : [];
+
+    return {
+      id: event.entityId,
+      status: "open",
+      tableId: payload.tableId ?? undefined,
+      guestId: payload.guestId ?? undefined,
+      reservationId: payload.reservationId ?? undefined,
+      items,
+      openedAt: payload.openedAt ?? toMillis(event.createdAt),
+      discountCents: 0,
+      ...calculateOrderTotals(items, 0),
+      createdByEventId: event.id,
+      updatedByEventId: event.id,
+      snapshots: { [event.id]: { items, discountCents: 0 } },
+      conflicts: [],
+    };
+  }
+
+  // Every folded event becomes the order's head, the way getEntityHead
+  // sees it, so an event based on it is not taken to be concurrent
+  const advance = (next: OrderState): OrderState => ({
+    ...next,
+    updatedByEventId: event.id,
+    snapshots: {
+      ...state.snapshots,
+      [event.id]: { items: next.items, discountCents: next.discountCents },
+    },
+  });
+
+  if (!ORDER_EVENT_TYPES.includes(event.type)) {
+    // Event types that do not affect the order projection
+    return advance(state);
+  }
+
+  const concurrent =
+    !!event.baseEventId && event.baseEventId !== state.updatedByEventId;
+  const base = event.baseEventId ? state.snapshots[event.baseEventId] : null;
+  const withConflict = (
+    next: OrderState,
+    resolution: ProjectionConflict["resolution"],
+    detail: string
+  ): OrderState => ({
+    ...next,
+    conflicts: [
+      ...state.conflicts,
+      {
+        eventId: event.id,
+        conflictingEventId: state.updatedByEventId,
+        eventType: event.type,
+        resolution,
+        detail,
+      },
+    ],
+  });
+
+  // A closed or voided order is final; later events are superseded
+  if (state.status !== "open") {
+    return advance(
+      concurrent
+        ? withConflict(
+            state,
+            "superseded",
+            `The order was already ${state.status}.`
+          )
+        : state
+    );
+  }
+
+  // Did a concurrent event change what this event is about?
+  const itemsChanged =
+    concurrent && !!base && !sameItems(base.items, state.items);
+  const discountChanged =
+    concurrent && !!base && base.discountCents !== state.discountCents;
+
+  const next = reduceOpenOrder(
+    state,
+    event,
+    payload,
+    itemsChanged ? base : null
+  );
+
+  let resolved = next;
+  if (itemsChanged && event.type === "add_item") {
+    resolved = withConflict(
+      next,
+      "merged",
+      "Items added alongside a concurrent item change."
+    );
+  } else if (itemsChanged && event.type === "change_quantity") {
+    resolved = withConflict(
+      next,
+      "merged",
+      "Item changes merged with a concurrent item change."
+    );
+  } else if (discountChanged && event.type === "apply_discount") {
+    resolved = withConflict(
+      next,
+      "last_writer_wins",
+      `Discount of ${state.discountCents} cents replaced by ${next.discountCents} cents.`
+    );
+  }
+
+  return advance(resolved);
+}
+
+/**
+ * Apply an event to an open order. With a merge base, replaced item lists
+ * are merged with the items changed since then instead of overwriting them.
+ */
+function reduceOpenOrder(
+  order: OrderState,
+  event: ProjectableEvent,
+  payload: any,
+  mergeBase: OrderSnapshot | null
+): OrderState {
+  switch (event.type) {
+    case "add_item": {
+      const added: OrderItem[] = Array.isArray(payload.items)
+        ? payload.items
+        : [];
+      return withItems(order, [...order.items, ...added]);
+    }
+
+    case "change_quantity": {
+      const items: OrderItem[] = Array.isArray(payload.items)
+        ? payload.items
+        : order.items;
+      return withItems(
+        order,
+        mergeBase ? mergeOrderItems(mergeBase.items, order.items, items) : items
+      );
+    }
+
+    case "apply_discount": {
+      const discountCents = payload.discountCents ?? 0;
+      return {
+        ...order,
+        discountCents,
+        ...calculateOrderTotals(order.items, discountCents),
+      };
+    }
+
+    case "void_item": {
+      // With an itemId only that line is voided, otherwise the whole order
+      if (payload.itemId) {
+        return withItems(
+          order,
+          order.items.filter((item) => item.id !== payload.itemId)
+        );
+      }
+      return {
+        ...order,
+        status: "voided",
+        voidedAt: payload.voidedAt ?? toMillis(event.createdAt),
+      };
+    }
+
+    case "close_check":
+      return {
+        ...order,
+        status: "closed",
+        closedAt: payload.closedAt ?? toMillis(event.createdAt),
+      };
+
+    default:
+      return order;
+  }
+}
@@ -0,0 +1,92 @@
+import { EventType } from "@/models/Event";
+import { checkOrderInvariants, OrderState } from "@/projections";
+
+const order = (overrides: Partial<OrderState> = {}): OrderState => ({
+  id: "order-1",
+  status: "open",
+  items: [
+    {
+      id: "line-1",
+      menuItemId: "item-001",
+      name: "Latte",
+      quantity: 2,
+      unitPriceCents: 450,
+      subtotalCents: 900,
+    },
+  ],
+  openedAt: 1000,
+  subtotalCents: 900,
+  discountCents: 0,
+  taxCents: 90,
+  troncCents: 108,
+  totalCents: 1098,
+  createdByEventId: "event-1",
+  updatedByEventId: "event-1",
+  snapshots: {},
+  conflicts: [],
+  ...overrides,
+});
+
+const codes = (
+  state: OrderState | null,
+  type: EventType,
+  payload: object = {}
+) => checkOrderInvariants(state, { type, payload }).map((v) => v.code);
+
+describe("checkOrderInvariants", () => {
+  it("only opens an order with at least one item", () => {
+    expect(codes(null, "add_item", { items: [order().items[0]] })).toEqual([]);
+    expect(codes(null, "add_item", { items: [] })).toEqual(["order_empty"]);
+    expect(codes(null, "close_check")).toEqual(["order_not_found"]);
+  });
+
+  it("allows changes to an open order", () => {
+    expect(codes(order(), "add_item", { items: [] })).toEqual([]);
+    expect(codes(order(), "change_quantity", { items: [] })).toEqual([]);
+    expect(codes(order(), "void_item", { itemId: "line-1" })).toEqual([]);
+    expect(codes(order(), "close_check")).toEqual([]);
+  });
+
+  it("refuses changes to a closed or voided order", () => {
+    const closed = order({ status: "closed" });
+    const voided = order({ status: "voided" });
+
+    expect(codes(closed, "add_item", { items: [] })).toEqual(["order_closed"]);
+    expect(codes(closed, "close_check")).toEqual(["order_closed"]);
+    expect(codes(voided, "change_quantity", { items: [] })).toEqual([
+      "order_voided",
+    ]);
+  });
+
+  it("refuses a discount larger than the subtotal", () => {
+    expect(codes(order(), "apply_discount", { discountCents: 900 })).toEqual(
+      []
+    );
+    expect(codes(order(), "apply_discount", { discountCents: 901 })).toEqual([
+      "discount_exceeds_subtotal",
+    ]);
+  });
+
+  it("refuses to void an item that is not on the order", () => {
+    expect(codes(order(), "void_item", { itemId: "line-9" })).toEqual([
+      "item_not_found",
+    ]);
+  });
+
+  it("has no rules for event types other entities use", () => {
+    expect(codes(order({ status: "closed" }), "print_ticket")).toEqual([]);
+  });
+
+  it("lets events concurrent with a close through to be settled as conflicts", () => {
+    const closed = order({ status: "closed", updatedByEventId: "event-2" });
+    const check = (baseEventId: string) =>
+      checkOrderInvariants(closed, {
+        type: "add_item",
+        payload: { items: [] },
+        baseEventId,
+      }).map((v) => v.code);
+
+    expect(check("event-1")).toEqual([]);
+    expect(check("event-2")).toEqual(["order_closed"]);
+  });
+});
@@ -0,0 +1,280 @@
+import { OrderItem } from "@/models/Order";
+import {
+  foldEvents,
+  mergeOrderItems,
+  ProjectableEvent,
+  reduceOrder,
+} from "@/projections";
+
+const latte = (quantity: number): OrderItem => ({
+  id: "line-1",
+  menuItemId: "item-001",
+  name: "Latte",
+  quantity,
+  unitPriceCents: 450,
+  subtotalCents: 450 * quantity,
+});
+
+const croissant: OrderItem = {
+  id: "line-2",
+  menuItemId: "item-013",
+  name: "Croissant",
+  quantity: 1,
+  unitPriceCents: 380,
+  subtotalCents: 380,
+};
+
+let clock = 0;
+
+function orderEvent(
+  type: ProjectableEvent["type"],
+  payload: object,
+  overrides: Partial<ProjectableEvent> = {}
+): ProjectableEvent {
+  clock++;
+  return {
+    id: `event-${clock}`,
+    entity: "order",
+    entityId: "order-1",
+    type,
+    payloadJson: JSON.stringify(payload),
+    deviceId: "till-a",
+    lamportClock: clock,
+    sequence: clock,
+    schemaVersion: 2,
+    status: "acked",
+    createdAt: 1000 + clock,
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  clock = 0;
+});
+
+describe("reduceOrder", () => {
+  it("opens an order with its first add_item and derives the totals", () => {
+    const state = foldEvents(reduceOrder, [
+      orderEvent("add_item", { items: [latte(2)], tableId: "table-001" }),
+    ]);
+
+    expect(state).toMatchObject({
+      id: "order-1",
+      status: "open",
+      tableId: "table-001",
+      items: [latte(2)],
+      subtotalCents: 900,
+      taxCents: 90,
+      troncCents: 108,
+      totalCents: 1098,
+      createdByEventId: "event-1",
+      updatedByEventId: "event-1",
+    });
+  });
+
+  it("ignores events for an order that was never opened", () => {
+    const state = foldEvents(reduceOrder, [
+      orderEvent("close_check", { closedAt: 5000 }),
+    ]);
+
+    expect(state).toBeNull();
+  });
+
+  it("applies item changes, discounts and the close in order", () => {
+    const state = foldEvents(reduceOrder, [
+      orderEvent("add_item", { items: [latte(1)] }),
+      orderEvent("add_item", { items: [croissant] }),
+      orderEvent("change_quantity", { items: [latte(2), croissant] }),
+      orderEvent("apply_discount", { discountCents: 100 }),
+      orderEvent("close_check", { closedAt: 5000 }),
+    ]);
+
+    expect(state).toMatchObject({
+      status: "closed",
+      closedAt: 5000,
+      items: [latte(2), croissant],
+      subtotalCents: 1280,
+      discountCents: 100,
+      totalCents: 1280 - 100 + 128 + 154,
+      updatedByEventId: "event-5",
+    });
+    expect(state?.conflicts).toEqual([]);
+  });
+
+  it("voids a single line, or the whole order without an itemId", () => {
+    const add = orderEvent("add_item", { items: [latte(1), croissant] });
+    const voidLine = orderEvent("void_item", { itemId: "line-2" });
+    const voidOrder = orderEvent("void_item", { voidedAt: 6000 });
+
+    expect(foldEvents(reduceOrder, [add, voidLine])?.items).toEqual([latte(1)]);
+    expect(foldEvents(reduceOrder, [add, voidLine, voidOrder])).toMatchObject({
+      status: "voided",
+      voidedAt: 6000,
+    });
+  });
+
+  it("leaves out rejected events", () => {
+    const state = foldEvents(reduceOrder, [
+      orderEvent("add_item", { items: [latte(1)] }),
+      orderEvent("close_check", {}, { status: "rejected" }),
+    ]);
+
+    expect(state?.status).toBe("open");
+    expect(state?.updatedByEventId).toBe("event-1");
+  });
+
+  it("folds events in causal order regardless of the order given", () => {
+    const add = orderEvent("add_item", { items: [latte(1)] });
+    const change = orderEvent("change_quantity", { items: [latte(3)] });
+
+    expect(foldEvents(reduceOrder, [change, add])?.items).toEqual([latte(3)]);
+  });
+
+  it("reads v1 payloads through their upcaster", () => {
+    const state = foldEvents(reduceOrder, [
+      orderEvent(
+        "add_item",
+        { items: [latte(1)], subtotalCents: 1, totalCents: 1 },
+        { schemaVersion: 1, createdAt: 4000 }
+      ),
+    ]);
+
+    expect(state).toMatchObject({ openedAt: 4000, subtotalCents: 450 });
+  });
+});
+
+describe("mergeOrderItems", () => {
+  it("applies the writer's changes on top of lines changed concurrently", () => {
+    const merged = mergeOrderItems(
+      [latte(1), croissant],
+      [latte(3), croissant],
+      [latte(1)]
+    );
+
+    // The quantity change is kept, the writer's removal applied
+    expect(merged).toEqual([latte(3)]);
+  });
+
+  it("keeps lines added on both sides", () => {
+    const muffin = { ...croissant, id: "line-3", name: "Blueberry Muffin" };
+
+    expect(
+      mergeOrderItems([latte(1)], [latte(1), croissant], [latte(1), muffin])
+    ).toEqual([latte(1), croissant, muffin]);
+  });
+
+  it("lets the writer's change win on a line it changed", () => {
+    expect(mergeOrderItems([latte(1)], [latte(1)], [latte(2)])).toEqual([
+      latte(2),
+    ]);
+  });
+});
+
+describe("reduceOrder with concurrent events", () => {
+  // Written on another till without seeing the previous event
+  const concurrent = {
+    lamportClock: 2,
+    deviceId: "till-b",
+    baseEventId: "event-1",
+  };
+
+  it("merges items added alongside a concurrent item change", () => {
+    const state = foldEvents(reduceOrder, [
+      orderEvent("add_item", { items: [latte(1)] }),
+      orderEvent(
+        "change_quantity",
+        { items: [latte(2)] },
+        { baseEventId: "event-1" }
+      ),
+      orderEvent("add_item", { items: [croissant] }, concurrent),
+    ]);
+
+    expect(state?.items).toEqual([latte(2), croissant]);
+    expect(state?.conflicts).toEqual([
+      expect.objectContaining({
+        eventId: "event-3",
+        conflictingEventId: "event-2",
+        resolution: "merged",
+      }),
+    ]);
+  });
+
+  it("merges concurrent quantity changes line by line", () => {
+    const state = foldEvents(reduceOrder, [
+      orderEvent("add_item", { items: [latte(1), croissant] }),
+      orderEvent(
+        "change_quantity",
+        { items: [latte(3), croissant] },
+        { baseEventId: "event-1" }
+      ),
+      orderEvent("change_quantity", { items: [latte(1)] }, concurrent),
+    ]);
+
+    expect(state?.items).toEqual([latte(3)]);
+    expect(state?.conflicts.map((c) => c.resolution)).toEqual(["merged"]);
+  });
+
+  it("keeps the last concurrent discount", () => {
+    const state = foldEvents(reduceOrder, [
+      orderEvent("add_item", { items: [latte(2)] }),
+      orderEvent(
+        "apply_discount",
+        { discountCents: 100 },
+        { baseEventId: "event-1" }
+      ),
+      orderEvent("apply_discount", { discountCents: 200 }, concurrent),
+    ]);
+
+    expect(state?.discountCents).toBe(200);
+    expect(state?.conflicts.map((c) => c.resolution)).toEqual([
+      "last_writer_wins",
+    ]);
+  });
+
+  it("supersedes changes made concurrently with a close", () => {
+    const state = foldEvents(reduceOrder, [
+      orderEvent("add_item", { items: [latte(1)] }),
+      orderEvent("close_check", { closedAt: 5000 }, { baseEventId: "event-1" }),
+      orderEvent("add_item", { items: [croissant] }, concurrent),
+    ]);
+
+    expect(state).toMatchObject({ status: "closed", items: [latte(1)] });
+    expect(state?.conflicts).toEqual([
+      expect.objectContaining({ eventId: "event-3", resolution: "superseded" }),
+    ]);
+  });
+
+  it("records no conflict for events that saw the previous event", () => {
+    const state = foldEvents(reduceOrder, [
+      orderEvent("add_item", { items: [latte(1)] }),
+      orderEvent(
+        "add_item",
+        { items: [croissant] },
+        { baseEventId: "event-1" }
+      ),
+      orderEvent(
+        "apply_discount",
+        { discountCents: 50 },
+        { baseEventId: "event-2" }
+      ),
+    ]);
+
+    expect(state?.conflicts).toEqual([]);
+  });
+
+  it("moves the head over events that do not change the order", () => {
+    const state = foldEvents(reduceOrder, [
+      orderEvent("add_item", { items: [latte(1)] }),
+      orderEvent("close_check", {}, { baseEventId: "event-1" }),
+      orderEvent("payment_captured", {}, { baseEventId: "event-2" }),
+      orderEvent(
+        "add_item",
+        { items: [croissant] },
+        { baseEventId: "event-3" }
+      ),
+    ]);
+
+    expect(state?.updatedByEventId).toBe("event-4");
+    expect(state?.conflicts).toEqual([]);
+  });
+});
@@ -0,0 +1,47 @@
+import { sortEventsCausally } from "@/projections";
+
+const event = (lamportClock: number, deviceId: string, sequence: number) => ({
+  lamportClock,
+  deviceId,
+  sequence,
+});
+
+describe("sortEventsCausally", () => {
+  it("orders by Lamport clock, then device ID, then sequence", () => {
+    const events = [
+      event(3, "till-a", 2),
+      event(2, "till-b", 1),
+      event(2, "till-a", 5),
+      event(2, "till-a", 4),
+      event(1, "till-c", 9),
+    ];
+
+    expect(sortEventsCausally(events)).toEqual([
+      event(1, "till-c", 9),
+      event(2, "till-a", 4),
+      event(2, "till-a", 5),
+      event(2, "till-b", 1),
+      event(3, "till-a", 2),
+    ]);
+  });
+
+  it("gives every device the same order for the same events", () => {
+    const events = [
+      event(4, "till-b", 1),
+      event(4, "till-a", 1),
+      event(1, "till-b", 2),
+    ];
+
+    expect(sortEventsCausally(events)).toEqual(
+      sortEventsCausally([...events].reverse())
+    );
+  });
+
+  it("returns a new array", () => {
+    const events = [event(2, "till-a", 1), event(1, "till-a", 2)];
+    const sorted = sortEventsCausally(events);
+
+    expect(sorted).not.toBe(events);
+    expect(events[0].lamportClock).toBe(2);
+  });
+});
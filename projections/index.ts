@@ -0,0 +1,78 @@
+// projections/index.ts
+import { EntityType } from "@/models/Event";
+import { checkOrderInvariants } from "./OrderInvariants";
+import { OrderState, reduceOrder } from "./OrderProjection";
+import { InvariantCheck, ProjectableEvent, Reducer } from "./types";
+
+export * from "./OrderInvariants";
+export * from "./OrderProjection";
+export * from "./types";
+
+/**
+ * Reducers per entity type. Entities without a read model have no reducer.
+ */
+export const reducers: Partial<Record<EntityType, Reducer<any>>> = {
+  order: reduceOrder as Reducer<OrderState>,
+};
+
+/**
+ * Business rules per entity type, checked before an event is written
+ */
+export const invariants: Partial<Record<EntityType, InvariantCheck<any>>> = {
+  order: checkOrderInvariants as InvariantCheck<OrderState>,
+};
+
+/**
+ * Sort events into a total causal order: Lamport clock first, then device ID
+ * so concurrent events from different tills order the same everywhere, then
+ * sequence. Returns a new array.
+ */
+export function sortEventsCausally<
+  E extends Pick<ProjectableEvent, "lamportClock" | "deviceId" | "sequence">
+>(events: E[]): E[] {
+  return [...events].sort(
+    (a, b) =>
+      a.lamportClock - b.lamportClock ||
+      (a.deviceId < b.deviceId ? -1 : a.deviceId > b.deviceId ? 1 : 0) ||
+      a.sequence - b.sequence
+  );
+}
+
+/**
+ * Fold events into state with the given reducer.
+ * Rejected events are never part of a projection.
+ */
+export function foldEvents<S>(
+  reducer: Reducer<S>,
+  events: ProjectableEvent[],
+  initialState: S | null = null
+): S | null {
+  return sortEventsCausally(events)
+    .filter((event) => event.status !== "rejected")
+    .reduce<S | null>((state, event) => reducer(state, event), initialState);
+}
+
+/**
+ * Replay events of one entity type in causal order, keeping one state per
+ * entity ID. Calls onEvent after each event so callers can report progress.
+ */
+export function replayEvents<S>(
+  reducer: Reducer<S>,
+  events: ProjectableEvent[],
+  onEvent?: (processed: number, total: number) => void
+): Map<string, S> {
+  const states = new Map<string, S>();
+  const ordered = sortEventsCausally(events).filter(
+    (event) => event.status !== "rejected"
+  );
+
+  ordered.forEach((event, index) => {
+    const next = reducer(states.get(event.entityId) ?? null, event);
+    if (next) {
+      states.set(event.entityId, next);
+    }
+    onEvent?.(index + 1, ordered.length);
+  });
+
+  return states;
+}
@@ -0,0 +1,91 @@
+// projections/types.ts
+import { ConflictResolution } from "@/models/Conflict";
+import Event, { EventType } from "@/models/Event";
+import { parseAndUpcastPayload } from "@/utils/EventUpcasters";
+
+/**
+ * The subset of an event a reducer needs. Event models satisfy it directly,
+ * so reducers can fold both stored events and events received over the network.
+ */
+export type ProjectableEvent = Pick<
+  Event,
+  | "id"
+  | "entity"
+  | "entityId"
+  | "type"
+  | "payloadJson"
+  | "deviceId"
+  | "lamportClock"
+  | "sequence"
+  | "schemaVersion"
+  | "status"
+  | "createdAt"
+  | "baseEventId"
+>;
+
+/**
+ * A pure reducer folding one event into an entity's state
+ */
+export type Reducer<S> = (state: S | null, event: ProjectableEvent) => S | null;
+
+/**
+ * Parse an event payload upgraded to the current schema version,
+ * falling back to an empty object
+ */
+export function parsePayload(event: ProjectableEvent): any {
+  return (
+    parseAndUpcastPayload(event.type, event.schemaVersion, event.payloadJson, {
+      entityId: event.entityId,
+      createdAt: toMillis(event.createdAt),
+    }) ?? {}
+  );
+}
+
+/**
+ * Normalise a date field (WatermelonDB returns Date objects) to milliseconds
+ */
+export function toMillis(value: number | Date | undefined | null): number {
+  if (value === undefined || value === null) {
+    return 0;
+  }
+  return typeof value === "number" ? value : new Date(value).getTime();
+}
+
+/**
+ * A broken business rule, returned to the UI or sent back to a till
+ */
+export interface DomainViolation {
+  code: string;
+  message: string;
+}
+
+/**
+ * What a business rule is checked against: a command, or an event
+ * received from another device
+ */
+export interface InvariantSubject {
+  type: EventType;
+  payload: any;
+  // The entity head its writer saw; received events only
+  baseEventId?: string;
+}
+
+/**
+ * Check a command against an entity's current state before its event is
+ * written. Returns the broken rules (empty when the command is allowed).
+ */
+export type InvariantCheck<S> = (
+  state: S | null,
+  command: InvariantSubject
+) => DomainViolation[];
+
+/**
+ * Two concurrent events settled by a conflict policy while folding
+ */
+export interface ProjectionConflict {
+  eventId: string;
+  conflictingEventId: string; // The latest event the writer had not seen
+  eventType: EventType;
+  resolution: ConflictResolution;
+  detail: string;
+}
@@ -0,0 +1,185 @@
+#!/usr/bin/env node
+
+/**
+ * In-memory stand-in for the head-office backend, for development and tests.
+ * Implements the API used by HttpCloudBackend:
+ *
+ *   POST /journals/:id/events  { journal, events }  → { acceptedThrough }
+ *   POST /journals/:id/close   { journal, seal }    → { closed: true }
+ *   GET  /journals                                  → journal summaries
+ *   GET  /journals/:id/events                       → stored events
+ *   GET  /events?venueId&after&limit                → { events, cursor, hasMore }
+ *   POST /events                     { events }     → { published }
+ *
+ * Journal events are stored in journal-sequence order; duplicates are
+ * ignored and a batch is accepted up to its first gap. POST /events stands
+ * in for head office publishing events; venues pull them with GET /events,
+ * where the cursor is the position in the published feed.
+ *
+ * Set MOCK_CLOUD_FAILURE_RATE (0-1) to fail that share of requests with a
+ * 503 and exercise retries.
+ *
+ * Usage: npm run mock-cloud (PORT defaults to 4000)
+ */
+
+const http = require("http");
+
+const PORT = Number(process.env.PORT) || 4000;
+const FAILURE_RATE = Number(process.env.MOCK_CLOUD_FAILURE_RATE) || 0;
+
+// journalId → { journal, events: [], seal: null }
+const journals = new Map();
+
+// Events published by head office, in publishing order
+const published = [];
+
+function send(res, status, body) {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    let data = "";
+    req.on("data", (chunk) => (data += chunk));
+    req.on("end", () => {
+      try {
+        resolve(data ? JSON.parse(data) : {});
+      } catch (error) {
+        reject(error);
+      }
+    });
+    req.on("error", reject);
+  });
+}
+
+function getJournal(id, journal) {
+  if (!journals.has(id)) {
+    journals.set(id, { journal, events: [], seal: null });
+  }
+  return journals.get(id);
+}
+
+function uploadEvents(id, body) {
+  const stored = getJournal(id, body.journal);
+  if (stored.seal) {
+    return [409, { error: "Journal is already closed" }];
+  }
+
+  const events = [...(body.events || [])].sort(
+    (a, b) => a.journalSequence - b.journalSequence
+  );
+  for (const event of events) {
+    const next = stored.events.length + 1;
+    if (event.journalSequence < next) {
+      continue; // Already stored
+    }
+    if (event.journalSequence > next) {
+      break; // Gap: the client resends from acceptedThrough
+    }
+    const previous = stored.events[stored.events.length - 1];
+    if (previous && event.previousHash !== previous.hash) {
+      return [422, { error: `Broken chain at ${event.journalSequence}` }];
+    }
+    stored.events.push(event);
+  }
+
+  return [200, { acceptedThrough: stored.events.length }];
+}
+
+function closeJournal(id, body) {
+  const stored = getJournal(id, body.journal);
+  const { seal } = body;
+  const head = stored.events[stored.events.length - 1];
+
+  if (!seal || seal.eventCount !== stored.events.length) {
+    return [409, { error: "Journal events are incomplete" }];
+  }
+  if (head && seal.headHash !== head.hash) {
+    return [409, { error: "Head hash does not match" }];
+  }
+
+  stored.seal = seal;
+  return [200, { closed: true }];
+}
+
+function pullEvents(query) {
+  const venueId = query.get("venueId");
+  const after = Number(query.get("after")) || 0;
+  const limit = Number(query.get("limit")) || 100;
+
+  const page = [];
+  let cursor = after;
+  while (cursor < published.length && page.length < limit) {
+    const event = published[cursor++];
+    if (!venueId || event.venueId === venueId) {
+      page.push(event);
+    }
+  }
+
+  return [
+    200,
+    {
+      events: page,
+      cursor: String(cursor),
+      hasMore: cursor < published.length,
+    },
+  ];
+}
+
+function publishEvents(body) {
+  const events = Array.isArray(body.events) ? body.events : [body];
+  published.push(...events);
+  return [200, { published: events.length }];
+}
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url, `http://localhost:${PORT}`);
+  const parts = url.pathname.split("/").filter(Boolean).map(decodeURIComponent);
+
+  if (FAILURE_RATE > 0 && Math.random() < FAILURE_RATE) {
+    console.log(`${req.method} ${url.pathname} → 503 (simulated)`);
+    return send(res, 503, { error: "Simulated failure" });
+  }
+
+  try {
+    let result = [404, { error: "Not found" }];
+
+    if (req.method === "GET" && parts.length === 1 && parts[0] === "journals") {
+      result = [
+        200,
+        [...journals.entries()].map(([id, stored]) => ({
+          id,
+          ...stored.journal,
+          eventCount: stored.events.length,
+          closed: stored.seal !== null,
+        })),
+      ];
+    } else if (parts.length === 1 && parts[0] === "events") {
+      if (req.method === "GET") {
+        result = pullEvents(url.searchParams);
+      } else if (req.method === "POST") {
+        result = publishEvents(await readBody(req));
+      }
+    } else if (parts.length === 3 && parts[0] === "journals") {
+      const [, id, action] = parts;
+      if (req.method === "GET" && action === "events") {
+        result = [200, journals.get(id)?.events ?? []];
+      } else if (req.method === "POST" && action === "events") {
+        result = uploadEvents(id, await readBody(req));
+      } else if (req.method === "POST" && action === "close") {
+        result = closeJournal(id, await readBody(req));
+      }
+    }
+
+    console.log(`${req.method} ${url.pathname} → ${result[0]}`);
+    send(res, result[0], result[1]);
+  } catch (error) {
+    console.error(`${req.method} ${url.pathname} failed:`, error);
+    send(res, 400, { error: String(error) });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock cloud server listening on http://localhost:${PORT}`);
+});
@@ -0,0 +1,143 @@
+// services/CloudBackend.ts
+import { EventEnvelope } from "@/models/EventPayload";
+import { JournalSource } from "@/models/Journal";
+import { JournalSeal } from "./JournalService";
+
+/**
+ * A journal as head office sees it
+ */
+export interface CloudJournal {
+  id: string;
+  date: string; // YYYY-MM-DD format
+  source: JournalSource;
+  deviceId: string;
+  venueId: string;
+}
+
+/**
+ * A journal event with its position in the journal's hash chain
+ */
+export interface CloudJournalEvent extends EventEnvelope {
+  journalSequence: number;
+  previousHash: string;
+  hash: string;
+}
+
+export interface CloudUploadResponse {
+  // Highest journal sequence the backend holds for the journal
+  acceptedThrough: number;
+}
+
+/**
+ * A page of events published by head office for a venue
+ */
+export interface CloudPullResponse {
+  events: EventEnvelope[];
+  cursor: string | null; // Pass back to get the events after this page
+  hasMore: boolean;
+}
+
+/**
+ * Where closed journals are uploaded to and head-office events are pulled
+ * from. Implementations must accept the same batch twice, since an upload
+ * is retried after any failure.
+ */
+export interface CloudBackend {
+  uploadJournalEvents(
+    journal: CloudJournal,
+    events: CloudJournalEvent[]
+  ): Promise<CloudUploadResponse>;
+  closeJournal(journal: CloudJournal, seal: JournalSeal): Promise<void>;
+  pullEvents(
+    venueId: string,
+    cursor: string | null,
+    limit: number
+  ): Promise<CloudPullResponse>;
+}
+
+/**
+ * A failed request to the cloud backend
+ * Client errors (4xx) are not retried; the same request would fail again.
+ */
+export class CloudRequestError extends Error {
+  constructor(message: string, public readonly status?: number) {
+    super(message);
+    this.name = "CloudRequestError";
+  }
+
+  get retryable(): boolean {
+    return this.status === undefined || this.status >= 500;
+  }
+}
+
+/**
+ * Cloud backend speaking JSON over HTTP
+ */
+export class HttpCloudBackend implements CloudBackend {
+  constructor(private readonly baseUrl: string) {}
+
+  async uploadJournalEvents(
+    journal: CloudJournal,
+    events: CloudJournalEvent[]
+  ): Promise<CloudUploadResponse> {
+    return await this.post<CloudUploadResponse>(
+      `/journals/${encodeURIComponent(journal.id)}/events`,
+      { journal, events }
+    );
+  }
+
+  async closeJournal(journal: CloudJournal, seal: JournalSeal): Promise<void> {
+    await this.post(`/journals/${encodeURIComponent(journal.id)}/close`, {
+      journal,
+      seal,
+    });
+  }
+
+  async pullEvents(
+    venueId: string,
+    cursor: string | null,
+    limit: number
+  ): Promise<CloudPullResponse> {
+    const query = [
+      `venueId=${encodeURIComponent(venueId)}`,
+      `limit=${limit}`,
+      ...(cursor !== null ? [`after=${encodeURIComponent(cursor)}`] : []),
+    ].join("&");
+    return await this.request<CloudPullResponse>("GET", `/events?${query}`);
+  }
+
+  private async post<T>(path: string, body: unknown): Promise<T> {
+    return await this.request<T>("POST", path, body);
+  }
+
+  private async request<T>(
+    method: "GET" | "POST",
+    path: string,
+    body?: unknown
+  ): Promise<T> {
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl}${path}`, {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: body !== undefined ? JSON.stringify(body) : undefined,
+      });
+    } catch (error) {
+      throw new CloudRequestError(
+        `Cloud backend unreachable: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+
+    if (!response.ok) {
+      const text = await response.text().catch(() => "");
+      throw new CloudRequestError(
+        `Cloud backend responded ${response.status}${text ? `: ${text}` : ""}`,
+        response.status
+      );
+    }
+
+    return (await response.json()) as T;
+  }
+}
@@ -0,0 +1,357 @@
+// services/CloudSyncService.ts
+import {
+  CLOUD_MAX_ATTEMPTS,
+  CLOUD_PULL_PAGE_SIZE,
+  CLOUD_RETRY_BASE_DELAY_MS,
+  CLOUD_SYNC_INTERVAL_MS,
+  CLOUD_SYNC_URL,
+  CLOUD_UPLOAD_BATCH_SIZE,
+} from "@/constants/cloud";
+import Event from "@/models/Event";
+import Journal from "@/models/Journal";
+import { sortEventsCausally } from "@/projections";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import {
+  CloudBackend,
+  CloudJournal,
+  CloudJournalEvent,
+  CloudRequestError,
+  HttpCloudBackend,
+} from "./CloudBackend";
+import { DeviceService } from "./DeviceService";
+import { EventService } from "./EventService";
+import { JournalService } from "./JournalService";
+import { LamportClockService } from "./LamportClockService";
+
+const CLOUD_UPLOAD_PROGRESS_KEY = "@cloud_upload_progress";
+const CLOUD_PULL_CURSOR_KEY = "@cloud_pull_cursor";
+
+/**
+ * Upload position per journal: journalId → last journal sequence the cloud holds
+ */
+type CloudUploadProgress = Record<string, number>;
+
+export interface CloudUploadResult {
+  journalsUploaded: number;
+  eventsUploaded: number;
+  failures: { journalId: string; error: string }[];
+}
+
+export interface CloudPullResult {
+  accepted: number;
+  duplicates: number;
+  rejected: { eventId: string; error: string }[];
+}
+
+export type CloudUploadProgressListener = (progress: {
+  journalId: string;
+  uploaded: number;
+  total: number;
+}) => void;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Exchanges events between the relay and head office
+ * Closed journals are uploaded: a journal is closed once its day is over.
+ * Its events are uploaded in batches, then the journal is sealed with its
+ * closing hash and marked synced. Progress is saved after every batch, so
+ * an interrupted upload resumes where it stopped.
+ * Events published by head office are pulled into today's cloud journal
+ * and reach the tills like any other journal event.
+ */
+export class CloudSyncService {
+  private static backend: CloudBackend = new HttpCloudBackend(CLOUD_SYNC_URL);
+  private static timer: ReturnType<typeof setInterval> | null = null;
+  private static running: Promise<CloudUploadResult> | null = null;
+  private static pulling: Promise<CloudPullResult> | null = null;
+
+  /**
+   * Replace the cloud backend
+   */
+  static setBackend(backend: CloudBackend) {
+    this.backend = backend;
+  }
+
+  /**
+   * Upload closed journals and pull head-office events periodically
+   */
+  static start(intervalMs: number = CLOUD_SYNC_INTERVAL_MS) {
+    if (this.timer) {
+      return;
+    }
+
+    const sync = () => {
+      this.uploadPendingJournals().catch((error) =>
+        console.error("Cloud upload failed:", error)
+      );
+      this.pullEvents().catch((error) =>
+        console.error("Cloud pull failed:", error)
+      );
+    };
+
+    sync();
+    this.timer = setInterval(sync, intervalMs);
+  }
+
+  static stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Upload every pending journal whose day is over
+   * Only one upload runs at a time; a second call joins the running one.
+   */
+  static async uploadPendingJournals(
+    onProgress?: CloudUploadProgressListener
+  ): Promise<CloudUploadResult> {
+    if (!this.running) {
+      this.running = this.uploadAll(onProgress).finally(() => {
+        this.running = null;
+      });
+    }
+    return await this.running;
+  }
+
+  /**
+   * Pull events head office published for this venue since the last pull
+   * Each event goes through the same checks as an event sent by a till:
+   * events pulled before are skipped, events breaking a business rule are
+   * rejected, and accepted events advance the relay's Lamport clock.
+   * Only one pull runs at a time; a second call joins the running one.
+   */
+  static async pullEvents(): Promise<CloudPullResult> {
+    if (!this.pulling) {
+      this.pulling = this.pullAll().finally(() => {
+        this.pulling = null;
+      });
+    }
+    return await this.pulling;
+  }
+
+  /**
+   * Upload one journal and mark it synced
+   * The journal goes back to pending if the upload fails.
+   */
+  static async uploadJournal(
+    journal: Journal,
+    onProgress?: CloudUploadProgressListener
+  ): Promise<number> {
+    const cloudJournal = this.toCloudJournal(journal);
+    let uploaded = await this.getProgress(journal.id);
+    let count = 0;
+
+    await JournalService.markJournalAsSyncing(journal.id);
+
+    try {
+      while (true) {
+        const events = await JournalService.getJournalEvents(journal.id, {
+          afterSequence: uploaded,
+          limit: CLOUD_UPLOAD_BATCH_SIZE,
+        });
+        if (events.length === 0) {
+          break;
+        }
+
+        const { acceptedThrough } = await this.withRetry(() =>
+          this.backend.uploadJournalEvents(
+            cloudJournal,
+            events.map((e) => this.toCloudEvent(e))
+          )
+        );
+        if (acceptedThrough <= uploaded) {
+          throw new CloudRequestError(
+            `Cloud backend accepted no events after sequence ${uploaded}`
+          );
+        }
+
+        count += acceptedThrough - uploaded;
+        uploaded = acceptedThrough;
+        await this.saveProgress(journal.id, uploaded);
+        onProgress?.({
+          journalId: journal.id,
+          uploaded,
+          total: journal.sequence,
+        });
+      }
+
+      const seal = await JournalService.getJournalSeal(journal.id);
+      await this.withRetry(() => this.backend.closeJournal(cloudJournal, seal));
+      await JournalService.markJournalAsSynced(journal.id);
+      await this.clearProgress(journal.id);
+      return count;
+    } catch (error) {
+      await JournalService.updateJournalStatus(journal.id, "pending");
+      throw error;
+    }
+  }
+
+  /**
+   * Forget all upload progress (e.g. after the local database was reset)
+   */
+  static async resetProgress() {
+    await AsyncStorage.multiRemove([
+      CLOUD_UPLOAD_PROGRESS_KEY,
+      CLOUD_PULL_CURSOR_KEY,
+    ]);
+  }
+
+  private static async uploadAll(
+    onProgress?: CloudUploadProgressListener
+  ): Promise<CloudUploadResult> {
+    const today = new Date().toISOString().split("T")[0]; // YYYY-MM-DD format
+    // Only one upload runs at a time, so a journal still marked syncing
+    // was interrupted (e.g. the app was closed) and is resumed
+    const interrupted = (await JournalService.getAllJournals()).filter(
+      (j) => j.status === "syncing"
+    );
+    const journals = [
+      ...(await JournalService.getPendingJournals()),
+      ...interrupted,
+    ]
+      .filter((j) => j.date < today && j.source !== "cloud")
+      .sort((a, b) => a.date.localeCompare(b.date));
+
+    const result: CloudUploadResult = {
+      journalsUploaded: 0,
+      eventsUploaded: 0,
+      failures: [],
+    };
+
+    for (const journal of journals) {
+      try {
+        result.eventsUploaded += await this.uploadJournal(journal, onProgress);
+        result.journalsUploaded++;
+      } catch (error) {
+        console.error(`Error uploading journal ${journal.id}:`, error);
+        result.failures.push({
+          journalId: journal.id,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    return result;
+  }
+
+  private static async pullAll(): Promise<CloudPullResult> {
+    const venueId = DeviceService.getVenueId();
+    let cursor = await AsyncStorage.getItem(CLOUD_PULL_CURSOR_KEY);
+
+    const result: CloudPullResult = {
+      accepted: 0,
+      duplicates: 0,
+      rejected: [],
+    };
+
+    while (true) {
+      const page = await this.withRetry(() =>
+        this.backend.pullEvents(venueId, cursor, CLOUD_PULL_PAGE_SIZE)
+      );
+
+      // The response comes from outside the venue; do not trust its shape
+      const events = Array.isArray(page?.events) ? page.events : [];
+
+      for (const envelope of sortEventsCausally(events)) {
+        const accepted = await JournalService.acceptEvent(envelope, "cloud");
+        if (accepted.status === "rejected") {
+          console.warn(
+            `Rejected cloud event ${accepted.eventId}:`,
+            accepted.errorMessage
+          );
+          result.rejected.push({
+            eventId: accepted.eventId,
+            error: accepted.errorMessage ?? "Rejected",
+          });
+        } else if (accepted.duplicate) {
+          result.duplicates++;
+        } else {
+          await LamportClockService.receive(envelope.lamportClock);
+          result.accepted++;
+        }
+      }
+
+      if (typeof page?.cursor === "string" && page.cursor !== cursor) {
+        cursor = page.cursor;
+        await AsyncStorage.setItem(CLOUD_PULL_CURSOR_KEY, cursor);
+      }
+      if (!page?.hasMore || events.length === 0) {
+        break;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Run a request, retrying with exponential backoff
+   */
+  private static async withRetry<T>(request: () => Promise<T>): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await request();
+      } catch (error) {
+        const retryable =
+          !(error instanceof CloudRequestError) || error.retryable;
+        if (!retryable || attempt >= CLOUD_MAX_ATTEMPTS) {
+          throw error;
+        }
+        await sleep(CLOUD_RETRY_BASE_DELAY_MS * 2 ** (attempt - 1));
+      }
+    }
+  }
+
+  private static toCloudJournal(journal: Journal): CloudJournal {
+    return {
+      id: journal.id,
+      date: journal.date,
+      source: journal.source,
+      deviceId: journal.deviceId,
+      venueId: journal.venueId,
+    };
+  }
+
+  private static toCloudEvent(event: Event): CloudJournalEvent {
+    return {
+      ...EventService.toEnvelope(event),
+      journalSequence: event.journalSequence ?? 0,
+      previousHash: event.previousHash ?? "",
+      hash: event.hash ?? "",
+    };
+  }
+
+  private static async loadProgress(): Promise<CloudUploadProgress> {
+    const stored = await AsyncStorage.getItem(CLOUD_UPLOAD_PROGRESS_KEY);
+    try {
+      return stored ? JSON.parse(stored) : {};
+    } catch {
+      console.error("Invalid cloud upload progress in storage, starting over");
+      return {};
+    }
+  }
+
+  private static async getProgress(journalId: string): Promise<number> {
+    return (await this.loadProgress())[journalId] ?? 0;
+  }
+
+  private static async saveProgress(journalId: string, uploaded: number) {
+    const progress = await this.loadProgress();
+    progress[journalId] = uploaded;
+    await AsyncStorage.setItem(
+      CLOUD_UPLOAD_PROGRESS_KEY,
+      JSON.stringify(progress)
+    );
+  }
+
+  private static async clearProgress(journalId: string) {
+    const progress = await this.loadProgress();
+    delete progress[journalId];
+    await AsyncStorage.setItem(
+      CLOUD_UPLOAD_PROGRESS_KEY,
+      JSON.stringify(progress)
+    );
+  }
+}
@@ -0,0 +1,219 @@
+// services/CommandService.ts
+import database, { eventsCollection } from "@/db";
+import Event, { EntityType, EventType } from "@/models/Event";
+import { EventPayloadMap } from "@/models/EventPayload";
+import { toGlobalEventId } from "@/utils/EventIdentity";
+import { EVENT_SCHEMA_VERSION } from "@/utils/EventUpcasters";
+import { DomainViolation } from "@/projections";
+import {
+  EventValidationError,
+  serializeEventPayload,
+} from "@/utils/EventValidation";
+import { Model, Q } from "@nozbe/watermelondb";
+import { DeviceService } from "./DeviceService";
+import { EventSequenceService } from "./EventSequenceService";
+import { JournalService } from "./JournalService";
+import { LamportClockService } from "./LamportClockService";
+import { OutboxService } from "./OutboxService";
+import { ProjectionService } from "./ProjectionService";
+import { isRelay } from "./TcpService";
+
+/**
+ * Links a command to the user action it is part of
+ * Use CommandService.followUp(event) for commands caused by an event.
+ */
+export interface CommandContext {
+  causationId?: string;
+  correlationId?: string;
+}
+
+/**
+ * A request to change an entity, turned into exactly one event
+ */
+export interface Command<T extends EventType = EventType>
+  extends CommandContext {
+  entity: EntityType;
+  entityId: string;
+  type: T;
+  payload: EventPayloadMap[T];
+}
+
+/**
+ * Who issued a command. Defaults to this device and its current user.
+ */
+export interface CommandIdentity {
+  deviceId: string;
+  relayId: string;
+  userId: string;
+  venueId: string;
+}
+
+export interface CommandResult<P extends Model = Model> {
+  event: Event;
+  // The entity's read model after the event, if the entity has one
+  projection: P | null;
+}
+
+/**
+ * Thrown when a command breaks a business rule or has an invalid payload
+ * Nothing is written; the violations can be shown to the user as-is.
+ */
+export class CommandRejectedError extends Error {
+  constructor(public readonly violations: DomainViolation[]) {
+    super(violations.map((v) => v.message).join("\n"));
+    this.name = "CommandRejectedError";
+  }
+}
+
+export class CommandService {
+  /**
+   * Execute a command:
+   * validate → create event → route to outbox/journal → apply projection
+   * Throws CommandRejectedError if the command is not allowed
+   */
+  static async execute<T extends EventType, P extends Model = Model>(
+    command: Command<T>,
+    identity?: CommandIdentity
+  ): Promise<CommandResult<P>> {
+    const result = await database.write(async () => {
+      return await this.executeInternal<T, P>(command, identity);
+    });
+
+    if (result.event.journalId) {
+      JournalService.notifyEventAppended(result.event);
+    }
+    return result;
+  }
+
+  /**
+   * Helper: Execute a command (without database.write wrapper)
+   * This is used WITHIN database.write() calls. The caller notifies
+   * JournalService listeners of journal events once its write is done.
+   */
+  static async executeInternal<T extends EventType, P extends Model = Model>(
+    command: Command<T>,
+    identity: CommandIdentity = this.getLocalIdentity()
+  ): Promise<CommandResult<P>> {
+    // Step 1: Validate payload and business rules before anything is written
+    let payloadJson: string;
+    try {
+      payloadJson = serializeEventPayload(command.type, command.payload);
+    } catch (error) {
+      if (error instanceof EventValidationError) {
+        throw new CommandRejectedError([
+          { code: "invalid_payload", message: error.message },
+        ]);
+      }
+      throw error;
+    }
+
+    const violations = await ProjectionService.checkInvariants(
+      command.entity,
+      command.entityId,
+      command
+    );
+    if (violations.length > 0) {
+      throw new CommandRejectedError(violations);
+    }
+
+    // A caused event joins its cause's chain unless told otherwise. A cause
+    // not stored on this device is taken to start its own chain.
+    let correlationId = command.correlationId;
+    if (!correlationId && command.causationId) {
+      const causes = await eventsCollection
+        .query(Q.where("id", command.causationId), Q.take(1))
+        .fetch();
+      correlationId =
+        causes.length > 0
+          ? causes[0].correlationId ?? causes[0].id
+          : command.causationId;
+    }
+
+    // Step 2: Next sequence of the issuing device and lamport clock
+    const sequence = await EventSequenceService.next(identity.deviceId);
+    const lamportClock = await LamportClockService.tick();
+    const baseEventId = await ProjectionService.getEntityHead(
+      command.entity,
+      command.entityId
+    );
+    const now = Date.now();
+
+    const buildEvent = (e: Event) => {
+      e.sequence = sequence;
+      e.globalId = toGlobalEventId(identity.deviceId, sequence);
+      e.entity = command.entity;
+      e.entityId = command.entityId;
+      e.type = command.type;
+      e.payloadJson = payloadJson;
+      e.deviceId = identity.deviceId;
+      e.relayId = identity.relayId;
+      e.userId = identity.userId;
+      e.venueId = identity.venueId;
+      e.lamportClock = lamportClock;
+      e.schemaVersion = EVENT_SCHEMA_VERSION;
+      e.causationId = command.causationId;
+      e.correlationId = correlationId ?? e.id; // Starts a new chain
+      e.baseEventId = baseEventId;
+      e.appliedAt = now; // Applied to the projection in the same write
+    };
+
+    // Step 3: Route the event. The relay's journal is the authoritative log,
+    // so events written there are acked immediately; tills queue them in
+    // their outbox until the relay confirms them.
+    let event: Event;
+    if (isRelay) {
+      const journal = await JournalService.getOrCreateTodaysJournalInternal(
+        "relay"
+      );
+      event = await JournalService.appendEventInternal(journal.id, (e) => {
+        buildEvent(e);
+        e.status = "acked";
+        e.ackedAt = now;
+      });
+    } else {
+      const outbox = await OutboxService.getOrCreateTodaysOutboxInternal();
+      event = await eventsCollection.create((e) => {
+        buildEvent(e);
+        e.outboxId = outbox.id;
+        e.status = "pending";
+      });
+
+      // The outbox has something to send again
+      if (outbox.status === "synced") {
+        await outbox.update((o) => {
+          o.status = "pending";
+        });
+      }
+    }
+
+    // Step 4: Re-derive the entity's read model from its events
+    const projection = (await ProjectionService.projectEntityInternal(
+      command.entity,
+      command.entityId
+    )) as P | null;
+
+    return { event, projection };
+  }
+
+  /**
+   * Context for a command caused by an event, in the same correlated chain
+   */
+  static followUp(event: Event): CommandContext {
+    return {
+      causationId: event.id,
+      correlationId: event.correlationId ?? event.id,
+    };
+  }
+
+  /**
+   * Identity of this device and its current user
+   */
+  static getLocalIdentity(): CommandIdentity {
+    return {
+      deviceId: DeviceService.getDeviceId(),
+      relayId: DeviceService.getRelayId(),
+      userId: DeviceService.getUserId(),
+      venueId: DeviceService.getVenueId(),
+    };
+  }
+}
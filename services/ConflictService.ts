@@ -0,0 +1,112 @@
+// services/ConflictService.ts
+import database, { conflictsCollection } from "@/db";
+import Conflict from "@/models/Conflict";
+import { EntityType } from "@/models/Event";
+import { ProjectionConflict } from "@/projections";
+import { Q } from "@nozbe/watermelondb";
+import { DeviceService } from "./DeviceService";
+
+export class ConflictService {
+  /**
+   * Helper: Store conflicts resolved by a projection (without database.write wrapper)
+   * This is used WITHIN database.write() calls. Conflicts already recorded
+   * for the same event are skipped, so re-projecting an entity is harmless.
+   */
+  static async recordConflictsInternal(
+    entity: EntityType,
+    entityId: string,
+    conflicts: ProjectionConflict[]
+  ): Promise<Conflict[]> {
+    if (conflicts.length === 0) {
+      return [];
+    }
+
+    const existing = await this.getConflictsForEntity(entity, entityId);
+    const recordedEventIds = new Set(existing.map((c) => c.eventId));
+
+    const created: Conflict[] = [];
+    for (const conflict of conflicts) {
+      if (recordedEventIds.has(conflict.eventId)) {
+        continue;
+      }
+
+      created.push(
+        await conflictsCollection.create((c) => {
+          c.entity = entity;
+          c.entityId = entityId;
+          c.eventId = conflict.eventId;
+          c.conflictingEventId = conflict.conflictingEventId;
+          c.eventType = conflict.eventType;
+          c.resolution = conflict.resolution;
+          c.detail = conflict.detail;
+        })
+      );
+      recordedEventIds.add(conflict.eventId);
+    }
+
+    return created;
+  }
+
+  /**
+   * Get all conflicts recorded for an entity
+   */
+  static async getConflictsForEntity(
+    entity: EntityType,
+    entityId: string
+  ): Promise<Conflict[]> {
+    return await conflictsCollection
+      .query(
+        Q.where("entity", entity),
+        Q.where("entity_id", entityId),
+        Q.sortBy("created_at", Q.asc)
+      )
+      .fetch();
+  }
+
+  /**
+   * Get conflicts a manager has not reviewed yet
+   */
+  static async getUnreviewedConflicts(): Promise<Conflict[]> {
+    return await conflictsCollection
+      .query(Q.where("reviewed_at", null), Q.sortBy("created_at", Q.desc))
+      .fetch();
+  }
+
+  /**
+   * Mark a conflict as reviewed by the current user
+   */
+  static async markReviewed(conflictId: string): Promise<Conflict> {
+    return await database.write(async () => {
+      const conflict = await conflictsCollection.find(conflictId);
+      await conflict.update((c) => {
+        c.reviewedAt = Date.now();
+        c.reviewedBy = DeviceService.getUserId();
+      });
+      return conflict;
+    });
+  }
+
+  /**
+   * Mark all conflicts of an entity as reviewed by the current user
+   */
+  static async markEntityReviewed(
+    entity: EntityType,
+    entityId: string
+  ): Promise<number> {
+    return await database.write(async () => {
+      const conflicts = (
+        await this.getConflictsForEntity(entity, entityId)
+      ).filter((c) => !c.reviewedAt);
+      const now = Date.now();
+      const userId = DeviceService.getUserId();
+
+      for (const conflict of conflicts) {
+        await conflict.update((c) => {
+          c.reviewedAt = now;
+          c.reviewedBy = userId;
+        });
+      }
+      return conflicts.length;
+    });
+  }
+}
@@ -0,0 +1,78 @@
+// services/ConnectionService.ts
+import { ReconnectService } from "./ReconnectService";
+import { RpcService } from "./RpcService";
+import { SyncService } from "./SyncService";
+import TcpService, { isRelay } from "./TcpService";
+
+/**
+ * Owns the app's TCP connection and the services running on top of it
+ * Started once when the app launches and kept for the app's lifetime, so
+ * the connection, outbox sync and journal fan-out do not depend on which
+ * screen is open. A till reconnects to the relay it last connected to.
+ */
+export class ConnectionService {
+  private static tcpService: TcpService | null = null;
+  private static rpcService: RpcService | null = null;
+  private static syncService: SyncService | null = null;
+  private static reconnectService: ReconnectService | null = null;
+
+  static async start() {
+    if (this.tcpService) {
+      return;
+    }
+
+    const tcpService = new TcpService();
+    this.tcpService = tcpService;
+
+    // Tills call the relay for acks and catch-up
+    this.rpcService = new RpcService(tcpService);
+    this.rpcService.start();
+
+    // Tills push their outbox to the relay while connected
+    this.syncService = new SyncService(tcpService, this.rpcService);
+    this.syncService.start();
+
+    // Tills reconnect to the relay when the connection is lost
+    this.reconnectService = new ReconnectService(tcpService);
+    this.reconnectService.start();
+
+    if (!isRelay) {
+      const address = await ReconnectService.getLastRelayAddress();
+      if (address) {
+        this.reconnectService.resume(address);
+      }
+    }
+  }
+
+  static stop() {
+    this.reconnectService?.stop();
+    this.syncService?.stop();
+    this.rpcService?.stop();
+    this.tcpService?.stop();
+    this.reconnectService = null;
+    this.syncService = null;
+    this.rpcService = null;
+    this.tcpService = null;
+  }
+
+  static getTcpService(): TcpService {
+    return this.getStarted(this.tcpService);
+  }
+
+  static getRpcService(): RpcService {
+    return this.getStarted(this.rpcService);
+  }
+
+  static getReconnectService(): ReconnectService {
+    return this.getStarted(this.reconnectService);
+  }
+
+  private static getStarted<T>(service: T | null): T {
+    if (!service) {
+      throw new Error(
+        "ConnectionService not started. Call ConnectionService.start() first."
+      );
+    }
+    return service;
+  }
+}
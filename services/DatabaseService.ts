@@ -1,9 +1,35 @@
 import database, {
+  conflictsCollection,
   eventsCollection,
   journalsCollection,
   ordersCollection,
   outboxesCollection,
 } from "@/db";
+import { reduceOrder, replayEvents } from "@/projections";
+import { Q } from "@nozbe/watermelondb";
+import { CloudSyncService } from "./CloudSyncService";
+import { ConflictService } from "./ConflictService";
+import { JournalCursorService } from "./JournalCursorService";
+import { ProjectionDiff, ProjectionService } from "./ProjectionService";
+
+export interface RebuildProgress {
+  phase: "loading" | "replaying" | "writing" | "done";
+  processed: number;
+  total: number;
+}
+
+export interface RebuildProjectionsOptions {
+  // Only compute and diff the rebuilt projection, without writing it
+  dryRun?: boolean;
+  onProgress?: (progress: RebuildProgress) => void;
+}
+
+export interface RebuildProjectionsResult {
+  dryRun: boolean;
+  eventsReplayed: number;
+  ordersRebuilt: number;
+  diffs: ProjectionDiff[];
+}
 
 export class DatabaseService {
   /**
@@ -35,7 +61,113 @@ export class DatabaseService {
       await Promise.all(
         allJournals.map((journal) => journal.destroyPermanently())
       );
+
+      // Delete all conflicts
+      const allConflicts = await conflictsCollection.query().fetch();
+      await Promise.all(
+        allConflicts.map((conflict) => conflict.destroyPermanently())
+      );
     });
+
+    // Journal events applied so far are gone, so catch up from the start
+    await JournalCursorService.reset();
+    await CloudSyncService.resetProgress();
+  }
+
+  /**
+   * Rebuild projections by replaying every event in causal order
+   * Wipes the orders table and regenerates it from the events table.
+   * With dryRun, nothing is written and the diff against the current rows
+   * is returned instead.
+   */
+  static async rebuildProjections(
+    options: RebuildProjectionsOptions = {}
+  ): Promise<RebuildProjectionsResult> {
+    const { dryRun = false, onProgress } = options;
+
+    const rebuild = async (): Promise<RebuildProjectionsResult> => {
+      onProgress?.({ phase: "loading", processed: 0, total: 0 });
+
+      const orderEvents = await eventsCollection
+        .query(Q.where("entity", "order"))
+        .fetch();
+      const currentOrders = await ordersCollection.query().fetch();
+
+      // Report progress roughly every 1% of the log
+      const step = Math.max(1, Math.floor(orderEvents.length / 100));
+      const states = replayEvents(
+        reduceOrder,
+        orderEvents,
+        (processed, total) => {
+          if (processed % step === 0 || processed === total) {
+            onProgress?.({ phase: "replaying", processed, total });
+          }
+        }
+      );
+
+      // Diff the rebuilt projection against the current rows
+      const diffs: ProjectionDiff[] = [];
+      const currentById = new Map(currentOrders.map((o) => [o.id, o]));
+
+      states.forEach((state, orderId) => {
+        const current = currentById.get(orderId);
+        if (!current) {
+          diffs.push({ entityId: orderId, kind: "missing", fields: [] });
+          return;
+        }
+        const fields = ProjectionService.diffOrderState(current, state);
+        if (fields.length > 0) {
+          diffs.push({ entityId: orderId, kind: "changed", fields });
+        }
+      });
+
+      currentOrders
+        .filter((order) => !states.has(order.id))
+        .forEach((order) =>
+          diffs.push({ entityId: order.id, kind: "extra", fields: [] })
+        );
+
+      if (!dryRun) {
+        const total = currentOrders.length + states.size;
+        let processed = 0;
+
+        // Wipe the orders table
+        for (const order of currentOrders) {
+          await order.destroyPermanently();
+          onProgress?.({ phase: "writing", processed: ++processed, total });
+        }
+
+        // Regenerate every order from its replayed state
+        for (const state of states.values()) {
+          await ordersCollection.create((o) => {
+            o._raw.id = state.id;
+            ProjectionService.assignOrderState(o, state);
+          });
+          await ConflictService.recordConflictsInternal(
+            "order",
+            state.id,
+            state.conflicts
+          );
+          onProgress?.({ phase: "writing", processed: ++processed, total });
+        }
+      }
+
+      onProgress?.({
+        phase: "done",
+        processed: orderEvents.length,
+        total: orderEvents.length,
+      });
+
+      return {
+        dryRun,
+        eventsReplayed: orderEvents.length,
+        ordersRebuilt: dryRun ? 0 : states.size,
+        diffs,
+      };
+    };
+
+    // A real rebuild runs in one write so readers never see a half-empty table
+    return dryRun ? await rebuild() : await database.write(rebuild);
   }
 
   /**
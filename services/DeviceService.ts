@@ -6,11 +6,13 @@ import { Platform } from "react-native";
 const DEVICE_ID_KEY = "@device_id";
 const USER_ID_KEY = "@user_id";
 const VENUE_ID_KEY = "@venue_id";
+const DEVICE_GROUPS_KEY = "@device_groups";
 
 export class DeviceService {
   private static deviceId: string | null = null;
   private static userId: string | null = null;
   private static venueId: string | null = null;
+  private static groups: string[] = [];
 
   /**
    * Initialize device information
@@ -20,6 +22,7 @@ export class DeviceService {
     await this.getOrCreateDeviceId();
     await this.getOrCreateUserId();
     await this.getOrCreateVenueId();
+    await this.loadGroups();
   }
 
   /**
@@ -173,6 +176,37 @@ export class DeviceService {
     return this.venueId;
   }
 
+  /**
+   * Load the groups this device belongs to
+   */
+  static async loadGroups(): Promise<string[]> {
+    const stored = await AsyncStorage.getItem(DEVICE_GROUPS_KEY);
+    try {
+      this.groups = stored ? JSON.parse(stored) : [];
+    } catch {
+      console.error("Invalid device groups in storage, ignoring them");
+      this.groups = [];
+    }
+    return this.groups;
+  }
+
+  /**
+   * Set the groups this device belongs to (e.g. "kitchen")
+   * Messages can be addressed to a group instead of a single device.
+   */
+  static async setGroups(groups: string[]): Promise<void> {
+    this.groups = groups;
+    await AsyncStorage.setItem(DEVICE_GROUPS_KEY, JSON.stringify(groups));
+    console.log("🏷️ Set device groups:", groups);
+  }
+
+  /**
+   * Get the groups this device belongs to
+   */
+  static getGroups(): string[] {
+    return this.groups;
+  }
+
   /**
    * Get relay ID (based on device or can be customized)
    * In your architecture, relay might be the same as device for relay servers
@@ -218,10 +252,16 @@ export class DeviceService {
    * Reset all stored IDs (useful for testing or logout)
    */
   static async reset(): Promise<void> {
-    await AsyncStorage.multiRemove([DEVICE_ID_KEY, USER_ID_KEY, VENUE_ID_KEY]);
+    await AsyncStorage.multiRemove([
+      DEVICE_ID_KEY,
+      USER_ID_KEY,
+      VENUE_ID_KEY,
+      DEVICE_GROUPS_KEY,
+    ]);
     this.deviceId = null;
     this.userId = null;
     this.venueId = null;
+    this.groups = [];
     console.log("🔄 Reset all device identifiers");
   }
 
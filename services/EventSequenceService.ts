@@ -0,0 +1,79 @@
+import { eventsCollection } from "@/db";
+import { Q } from "@nozbe/watermelondb";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+const EVENT_SEQUENCE_KEY_PREFIX = "@event_sequence:";
+
+/**
+ * Per-device event sequence numbers, kept outside the database
+ * An event's global ID is deviceId:sequence, so a sequence must never be
+ * issued twice, even after the local events were deleted by a reset.
+ */
+export class EventSequenceService {
+  private static sequences: Map<string, number> = new Map();
+  private static loading: Map<string, Promise<number>> = new Map();
+
+  /**
+   * Issue the next sequence number of a device and return it
+   */
+  static async next(deviceId: string): Promise<number> {
+    await this.initialize(deviceId);
+
+    // Read and increment synchronously so concurrent calls never collide
+    const next = (this.sequences.get(deviceId) as number) + 1;
+    this.sequences.set(deviceId, next);
+    await this.persist(deviceId, next);
+    return next;
+  }
+
+  private static async initialize(deviceId: string): Promise<number> {
+    const current = this.sequences.get(deviceId);
+    if (current !== undefined) {
+      return current;
+    }
+
+    let loading = this.loading.get(deviceId);
+    if (!loading) {
+      loading = this.load(deviceId);
+      this.loading.set(deviceId, loading);
+    }
+
+    return await loading;
+  }
+
+  /**
+   * Read the stored sequence, never going below the device's highest
+   * sequence in the events table
+   */
+  private static async load(deviceId: string): Promise<number> {
+    const stored = await AsyncStorage.getItem(
+      EVENT_SEQUENCE_KEY_PREFIX + deviceId
+    );
+    const storedSequence = stored ? parseInt(stored, 10) || 0 : 0;
+
+    const latestEvents = await eventsCollection
+      .query(
+        Q.where("device_id", deviceId),
+        Q.sortBy("sequence", Q.desc),
+        Q.take(1)
+      )
+      .fetch();
+    const maxEventSequence =
+      latestEvents.length > 0 ? latestEvents[0].sequence : 0;
+
+    const sequence = Math.max(storedSequence, maxEventSequence);
+    this.sequences.set(deviceId, sequence);
+    this.loading.delete(deviceId);
+    return sequence;
+  }
+
+  private static async persist(deviceId: string, value: number) {
+    // Only write if no later sequence was issued in the meantime
+    if (this.sequences.get(deviceId) === value) {
+      await AsyncStorage.setItem(
+        EVENT_SEQUENCE_KEY_PREFIX + deviceId,
+        String(value)
+      );
+    }
+  }
+}
@@ -1,50 +1,43 @@
 import database, { eventsCollection } from "@/db";
 import Event, { EntityType, EventStatus, EventType } from "@/models/Event";
+import { EventEnvelope, EventPayloadMap } from "@/models/EventPayload";
+import { sortEventsCausally, toMillis } from "@/projections";
+import { toGlobalEventId } from "@/utils/EventIdentity";
+import { parseAndUpcastPayload } from "@/utils/EventUpcasters";
+import {
+  EventValidationError,
+  validateEventEnvelope,
+} from "@/utils/EventValidation";
 import { Q } from "@nozbe/watermelondb";
-import { OutboxService } from "./OutboxService";
+import { CommandContext, CommandService } from "./CommandService";
+import { JournalService } from "./JournalService";
+import { LamportClockService } from "./LamportClockService";
+import { ProjectionService } from "./ProjectionService";
 
 export class EventService {
   /**
-   * Create a new event
-   */
-  static async createEvent(eventData: {
-    entity: EntityType;
-    entityId: string;
-    type: EventType;
-    payloadJson: string;
-    deviceId: string;
-    relayId: string;
-    userId: string;
-    venueId: string;
-  }): Promise<Event> {
-    return await database.write(async () => {
-      const todaysOutbox = await OutboxService.getOrCreateTodaysOutbox();
-
-      // Get the current max sequence and lamport clock
-      const existingEvents = await eventsCollection
-        .query(Q.sortBy("sequence", Q.desc), Q.take(1))
-        .fetch();
-
-      const maxSequence =
-        existingEvents.length > 0 ? existingEvents[0].sequence : 0;
-      const maxLamportClock =
-        existingEvents.length > 0 ? existingEvents[0].lamportClock : 0;
-
-      return await eventsCollection.create((event) => {
-        event.sequence = maxSequence + 1;
-        event.entity = eventData.entity;
-        event.entityId = eventData.entityId;
-        event.type = eventData.type;
-        event.payloadJson = eventData.payloadJson;
-        event.deviceId = eventData.deviceId;
-        event.relayId = eventData.relayId;
-        event.userId = eventData.userId;
-        event.venueId = eventData.venueId;
-        event.lamportClock = maxLamportClock + 1;
-        event.status = "pending";
-        event.outboxId = todaysOutbox.id;
-      });
-    });
+   * Create a new event through the command pipeline
+   * Throws CommandRejectedError if the payload does not match its type
+   */
+  static async createEvent<T extends EventType>(
+    eventData: {
+      entity: EntityType;
+      entityId: string;
+      type: T;
+      payload: EventPayloadMap[T];
+      deviceId: string;
+      relayId: string;
+      userId: string;
+      venueId: string;
+    },
+    context: CommandContext = {}
+  ): Promise<Event> {
+    const { entity, entityId, type, payload, ...identity } = eventData;
+    const { event } = await CommandService.execute(
+      { entity, entityId, type, payload, ...context },
+      identity
+    );
+    return event;
   }
 
   /**
@@ -95,8 +88,55 @@ export class EventService {
       .fetch();
   }
 
+  /**
+   * Get all events of one user action, in causal order
+   */
+  static async getCorrelatedEvents(correlationId: string): Promise<Event[]> {
+    const events = await eventsCollection
+      .query(
+        // The first event may predate correlation IDs
+        Q.or(
+          Q.where("correlation_id", correlationId),
+          Q.where("id", correlationId)
+        )
+      )
+      .fetch();
+
+    return sortEventsCausally(events);
+  }
+
+  /**
+   * Get the whole correlated chain an event belongs to, in causal order
+   */
+  static async getEventChain(eventId: string): Promise<Event[]> {
+    const event = await eventsCollection.find(eventId);
+    return await this.getCorrelatedEvents(event.correlationId ?? event.id);
+  }
+
+  /**
+   * Get the events that led to an event, from the first cause to the event
+   */
+  static async getCausationPath(eventId: string): Promise<Event[]> {
+    const path: Event[] = [];
+    let current: Event | null = await eventsCollection.find(eventId);
+
+    while (current) {
+      path.unshift(current);
+      if (!current.causationId) {
+        break;
+      }
+      const causes: Event[] = await eventsCollection
+        .query(Q.where("id", current.causationId))
+        .fetch();
+      current = causes.length > 0 ? causes[0] : null; // Cause not synced here
+    }
+
+    return path;
+  }
+
   /**
    * Update event status
+   * A rejected event no longer counts, so its entity is re-derived without it.
    */
   static async updateEventStatus(
     eventId: string,
@@ -114,6 +154,13 @@ export class EventService {
           e.ackedAt = Date.now();
         }
       });
+
+      if (status === "rejected") {
+        await ProjectionService.projectEntityInternal(
+          event.entity,
+          event.entityId
+        );
+      }
       return event;
     });
   }
@@ -142,14 +189,101 @@ export class EventService {
   }
 
   /**
-   * Parse event payload JSON
+   * Parse event payload JSON, upgraded to the current schema version
+   */
+  static parseEventPayload<T extends EventType>(
+    event: Event & { type: T }
+  ): EventPayloadMap[T] | null {
+    return parseAndUpcastPayload(
+      event.type,
+      event.schemaVersion,
+      event.payloadJson,
+      { entityId: event.entityId, createdAt: toMillis(event.createdAt) }
+    );
+  }
+
+  /**
+   * Convert an event to the envelope sent to other devices
+   */
+  static toEnvelope(event: Event): EventEnvelope {
+    return {
+      id: event.id,
+      sequence: event.sequence,
+      entity: event.entity,
+      entityId: event.entityId,
+      type: event.type,
+      payloadJson: event.payloadJson,
+      deviceId: event.deviceId,
+      relayId: event.relayId,
+      userId: event.userId,
+      venueId: event.venueId,
+      lamportClock: event.lamportClock,
+      createdAt: toMillis(event.createdAt),
+      schemaVersion: event.schemaVersion,
+      causationId: event.causationId ?? undefined,
+      correlationId: event.correlationId ?? undefined,
+      baseEventId: event.baseEventId ?? undefined,
+    };
+  }
+
+  /**
+   * Store an event the relay accepted into its journal and broadcast
+   * The event is already acknowledged, so it is applied to the local read
+   * model straight away and never queued in this device's outbox. Events
+   * this device already has (including its own) are returned unchanged.
+   * Throws EventIdentityConflictError if its global ID belongs to a
+   * different event.
    */
-  static parseEventPayload(event: Event): any {
-    try {
-      return JSON.parse(event.payloadJson);
-    } catch {
-      return null;
+  static async ingestAcceptedEvent(envelope: EventEnvelope): Promise<Event> {
+    const validationError = validateEventEnvelope(envelope);
+    if (validationError) {
+      throw new EventValidationError(String(envelope?.type), validationError);
     }
+
+    await LamportClockService.receive(envelope.lamportClock);
+
+    return await database.write(async () => {
+      const existing = await JournalService.findIngestedEventInternal(envelope);
+      if (existing) {
+        return existing;
+      }
+
+      const now = Date.now();
+      const event = await eventsCollection.create((e) => {
+        this.assignEnvelope(e, envelope);
+        e.status = "acked";
+        e.ackedAt = now;
+        e.appliedAt = now;
+      });
+
+      await ProjectionService.projectEntityInternal(
+        envelope.entity,
+        envelope.entityId
+      );
+      return event;
+    });
+  }
+
+  /**
+   * Helper: Copy an envelope's immutable fields onto a new event record
+   */
+  private static assignEnvelope(event: Event, envelope: EventEnvelope) {
+    event._raw.id = envelope.id; // Same ID on every device
+    event.sequence = envelope.sequence;
+    event.globalId = toGlobalEventId(envelope.deviceId, envelope.sequence);
+    event.entity = envelope.entity;
+    event.entityId = envelope.entityId;
+    event.type = envelope.type;
+    event.payloadJson = envelope.payloadJson;
+    event.deviceId = envelope.deviceId;
+    event.relayId = envelope.relayId;
+    event.userId = envelope.userId;
+    event.venueId = envelope.venueId;
+    event.lamportClock = envelope.lamportClock;
+    event.schemaVersion = envelope.schemaVersion ?? 1;
+    event.causationId = envelope.causationId;
+    event.correlationId = envelope.correlationId;
+    event.baseEventId = envelope.baseEventId;
   }
 
   /**
@@ -0,0 +1,47 @@
+// services/IdentityKeyService.ts
+import {
+  generateKeyPair,
+  KeyPair,
+  keyFingerprint,
+} from "@/utils/SecureChannel";
+import * as SecureStore from "expo-secure-store";
+
+const IDENTITY_KEY = "identity_key";
+
+/**
+ * This device's long-term key pair for encrypted TCP connections
+ * Created on first use and kept in secure storage. Tills and the relay pin
+ * each other's public key when they pair; its fingerprint lets staff check
+ * they are talking to the right device.
+ */
+export class IdentityKeyService {
+  private static identity: KeyPair | null = null;
+
+  static async getIdentity(): Promise<KeyPair> {
+    if (this.identity) {
+      return this.identity;
+    }
+
+    const stored = await SecureStore.getItemAsync(IDENTITY_KEY);
+    if (stored) {
+      try {
+        this.identity = JSON.parse(stored) as KeyPair;
+        return this.identity;
+      } catch {
+        console.error("Invalid identity key in storage, creating a new one");
+      }
+    }
+
+    const identity = generateKeyPair();
+    await SecureStore.setItemAsync(IDENTITY_KEY, JSON.stringify(identity));
+    this.identity = identity;
+    return identity;
+  }
+
+  /**
+   * Fingerprint of this device's public key, to compare with what peers show
+   */
+  static async getFingerprint(): Promise<string> {
+    return keyFingerprint((await this.getIdentity()).publicKey);
+  }
+}
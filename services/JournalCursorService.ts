@@ -0,0 +1,83 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+const JOURNAL_CURSORS_KEY = "@journal_cursors";
+
+/**
+ * Last applied position per relay journal: journalId → journalSequence
+ */
+export type JournalCursors = Record<string, number>;
+
+/**
+ * Remembers how far this till has applied each relay journal, so it can
+ * ask the relay for everything after that position when it reconnects
+ */
+export class JournalCursorService {
+  private static cursors: JournalCursors | null = null;
+  private static loading: Promise<JournalCursors> | null = null;
+
+  /**
+   * Load the persisted cursors
+   */
+  static async initialize(): Promise<JournalCursors> {
+    if (this.cursors !== null) {
+      return this.cursors;
+    }
+
+    if (!this.loading) {
+      this.loading = this.load();
+    }
+
+    return await this.loading;
+  }
+
+  /**
+   * Get a copy of all cursors
+   */
+  static async getCursors(): Promise<JournalCursors> {
+    return { ...(await this.initialize()) };
+  }
+
+  /**
+   * Get the last applied position of a journal (0 if nothing was applied)
+   */
+  static async getCursor(journalId: string): Promise<number> {
+    const cursors = await this.initialize();
+    return cursors[journalId] ?? 0;
+  }
+
+  /**
+   * Move a journal's cursor forward; never moves it back
+   */
+  static async advance(journalId: string, journalSequence: number) {
+    const cursors = await this.initialize();
+    if ((cursors[journalId] ?? 0) >= journalSequence) {
+      return;
+    }
+
+    cursors[journalId] = journalSequence;
+    await AsyncStorage.setItem(JOURNAL_CURSORS_KEY, JSON.stringify(cursors));
+  }
+
+  /**
+   * Forget all cursors (e.g. after the local database was reset)
+   */
+  static async reset() {
+    this.cursors = {};
+    await AsyncStorage.removeItem(JOURNAL_CURSORS_KEY);
+  }
+
+  private static async load(): Promise<JournalCursors> {
+    const stored = await AsyncStorage.getItem(JOURNAL_CURSORS_KEY);
+
+    let cursors: JournalCursors = {};
+    try {
+      cursors = stored ? JSON.parse(stored) : {};
+    } catch {
+      console.error("Invalid journal cursors in storage, starting over");
+    }
+
+    this.cursors = cursors;
+    this.loading = null;
+    return cursors;
+  }
+}
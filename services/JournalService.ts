@@ -1,46 +1,176 @@
 // services/JournalService.ts
-import database, { journalsCollection } from "@/db";
-import Journal from "@/models/Journal";
+import database, { eventsCollection, journalsCollection } from "@/db";
+import Event from "@/models/Event";
+import { EventEnvelope } from "@/models/EventPayload";
+import Journal, { JournalSource, JournalStatus } from "@/models/Journal";
+import {
+  EventIdentityConflictError,
+  toGlobalEventId,
+} from "@/utils/EventIdentity";
+import { parseAndUpcastPayload } from "@/utils/EventUpcasters";
+import { validateEventEnvelope } from "@/utils/EventValidation";
+import {
+  ChainedEventContent,
+  computeClosingHash,
+  computeEventHash,
+  GENESIS_HASH,
+} from "@/utils/HashChain";
 import { Q } from "@nozbe/watermelondb";
 import { DeviceService } from "./DeviceService";
+import { ProjectionService } from "./ProjectionService";
+
+export interface JournalVerificationResult {
+  journalId: string;
+  valid: boolean;
+  checkedCount: number;
+  // First broken link in the chain, if any
+  brokenAt?: {
+    eventId?: string;
+    journalSequence: number;
+    reason:
+      | "missing_hash"
+      | "sequence_gap"
+      | "previous_hash_mismatch"
+      | "hash_mismatch"
+      | "journal_sequence_mismatch"
+      | "closing_hash_mismatch";
+  };
+}
+
+export interface JournalIngestResult {
+  event: Event;
+  // The event was already stored; nothing was written
+  duplicate: boolean;
+}
+
+/**
+ * The relay's verdict on an event received from a till
+ */
+export interface JournalAcceptResult {
+  eventId: string;
+  status: "acked" | "rejected";
+  errorMessage?: string;
+  duplicate: boolean;
+  event?: Event; // The journal event, when acked
+}
+
+/**
+ * What seals a journal's event chain once it is closed
+ */
+export interface JournalSeal {
+  eventCount: number;
+  headHash: string;
+  closingHash: string;
+}
+
+export type JournalAppendListener = (event: Event) => void;
+
+/**
+ * The hashed content of an event stored in a journal
+ */
+function chainedContent(event: Event): ChainedEventContent {
+  return {
+    id: event.id,
+    journalId: event.journalId ?? "",
+    journalSequence: event.journalSequence ?? 0,
+    sequence: event.sequence,
+    entity: event.entity,
+    entityId: event.entityId,
+    type: event.type,
+    payloadJson: event.payloadJson,
+    deviceId: event.deviceId,
+    relayId: event.relayId,
+    userId: event.userId,
+    venueId: event.venueId,
+    lamportClock: event.lamportClock,
+    schemaVersion: event.schemaVersion,
+    causationId: event.causationId ?? undefined,
+    correlationId: event.correlationId ?? undefined,
+    baseEventId: event.baseEventId ?? undefined,
+  };
+}
 
 export class JournalService {
+  private static appendListeners: Set<JournalAppendListener> = new Set();
+
   /**
-   * Get or create today's journal
+   * Listen to events appended to any journal
+   * Called after the write is committed. Returns an unsubscribe function.
    */
-  static async getOrCreateTodaysJournal(): Promise<Journal> {
-    const today = new Date().toISOString().split("T")[0]; // YYYY-MM-DD format
+  static addAppendListener(listener: JournalAppendListener): () => void {
+    this.appendListeners.add(listener);
+    return () => {
+      this.appendListeners.delete(listener);
+    };
+  }
 
+  /**
+   * Tell listeners about a committed journal event
+   * Call after the write that appended it has finished.
+   */
+  static notifyEventAppended(event: Event) {
+    this.appendListeners.forEach((listener) => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error("Error in journal append listener:", error);
+      }
+    });
+  }
+
+  /**
+   * Get or create today's journal
+   * The relay's venue log uses source "relay", for its own and tills' events
+   */
+  static async getOrCreateTodaysJournal(
+    source: JournalSource = "relay"
+  ): Promise<Journal> {
     return await database.write(async () => {
-      // Try to find existing journal for today
-      const existingJournals = await journalsCollection
-        .query(Q.where("date", today))
-        .fetch();
+      return await this.getOrCreateTodaysJournalInternal(source);
+    });
+  }
 
-      if (existingJournals.length > 0) {
-        return existingJournals[0];
-      }
+  /**
+   * Helper: Get or create today's journal (without database.write wrapper)
+   * This is used WITHIN database.write() calls
+   */
+  static async getOrCreateTodaysJournalInternal(
+    source: JournalSource = "relay"
+  ): Promise<Journal> {
+    const today = new Date().toISOString().split("T")[0]; // YYYY-MM-DD format
 
-      // Create new journal for today
-      const journal = await journalsCollection.create((j) => {
-        j.date = today;
-        j.status = "pending";
-        j.sequence = 0; // Will be updated as events are added
-        j.source = "local"; // Default to local, update as needed
-        j.deviceId = DeviceService.getDeviceId();
-        j.venueId = DeviceService.getVenueId();
-      });
+    // Try to find existing journal for today
+    const existingJournals = await journalsCollection
+      .query(Q.where("date", today), Q.where("source", source))
+      .fetch();
 
-      return journal;
+    if (existingJournals.length > 0) {
+      return existingJournals[0];
+    }
+
+    // Create new journal for today
+    return await journalsCollection.create((j) => {
+      j.date = today;
+      j.status = "pending";
+      j.sequence = 0; // Updated as events are appended to the chain
+      j.source = source;
+      j.deviceId = DeviceService.getDeviceId();
+      j.venueId = DeviceService.getVenueId();
     });
   }
 
   /**
-   * Get journal by date
+   * Get journal by date (and source)
    */
-  static async getJournalByDate(date: string): Promise<Journal | null> {
+  static async getJournalByDate(
+    date: string,
+    source?: JournalSource
+  ): Promise<Journal | null> {
     const journals = await journalsCollection
-      .query(Q.where("date", date))
+      .query(
+        Q.where("date", date),
+        ...(source ? [Q.where("source", source)] : [])
+      )
       .fetch();
 
     return journals.length > 0 ? journals[0] : null;
@@ -53,20 +183,364 @@ export class JournalService {
     return await journalsCollection.query(Q.sortBy("date", Q.desc)).fetch();
   }
 
+  /**
+   * Get journals from a date (YYYY-MM-DD) onwards, oldest first
+   */
+  static async getJournalsSince(date: string): Promise<Journal[]> {
+    return await journalsCollection
+      .query(Q.where("date", Q.gte(date)), Q.sortBy("date", Q.asc))
+      .fetch();
+  }
+
+  /**
+   * Get the seal of a journal's event chain: its event count, head hash
+   * and the closing hash stored when the journal is synced
+   */
+  static async getJournalSeal(journalId: string): Promise<JournalSeal> {
+    const journal = await journalsCollection.find(journalId);
+    const head = await this.getChainHeadInternal(journalId);
+    const headHash = head?.hash ?? GENESIS_HASH;
+
+    return {
+      eventCount: journal.sequence,
+      headHash,
+      closingHash: computeClosingHash({
+        journalId: journal.id,
+        date: journal.date,
+        source: journal.source,
+        deviceId: journal.deviceId,
+        venueId: journal.venueId,
+        eventCount: journal.sequence,
+        headHash,
+      }),
+    };
+  }
+
   /**
    * Mark journal as synced
+   * Stores the closing hash sealing the journal's event chain
    */
   static async markJournalAsSynced(journalId: string): Promise<Journal> {
     return await database.write(async () => {
       const journal = await journalsCollection.find(journalId);
+      const { closingHash } = await this.getJournalSeal(journalId);
+
       await journal.update((j) => {
         j.status = "synced";
         j.syncedAt = Date.now();
+        j.closingHash = closingHash;
       });
       return journal;
     });
   }
 
+  /**
+   * Update journal status (pending while waiting, syncing during an upload)
+   */
+  static async updateJournalStatus(
+    journalId: string,
+    status: JournalStatus
+  ): Promise<Journal> {
+    return await database.write(async () => {
+      const journal = await journalsCollection.find(journalId);
+      await journal.update((j) => {
+        j.status = status;
+      });
+      return journal;
+    });
+  }
+
+  /**
+   * Mark journal as syncing
+   */
+  static async markJournalAsSyncing(journalId: string): Promise<Journal> {
+    return await this.updateJournalStatus(journalId, "syncing");
+  }
+
+  /**
+   * Helper: Get the last chained event of a journal (without database.write wrapper)
+   */
+  private static async getChainHeadInternal(
+    journalId: string
+  ): Promise<Event | null> {
+    const heads = await eventsCollection
+      .query(
+        Q.where("journal_id", journalId),
+        Q.sortBy("journal_sequence", Q.desc),
+        Q.take(1)
+      )
+      .fetch();
+
+    return heads.length > 0 ? heads[0] : null;
+  }
+
+  /**
+   * Helper: Append a new event to a journal's hash chain (without database.write wrapper)
+   * This is used WITHIN database.write() calls. The builder fills in the
+   * event; its journal position and hashes are set afterwards.
+   */
+  static async appendEventInternal(
+    journalId: string,
+    builder: (event: Event) => void
+  ): Promise<Event> {
+    const journal = await journalsCollection.find(journalId);
+    const head = await this.getChainHeadInternal(journalId);
+    const journalSequence = journal.sequence + 1;
+    const previousHash = head?.hash ?? GENESIS_HASH;
+
+    const event = await eventsCollection.create((e) => {
+      builder(e);
+      e.journalId = journalId;
+      e.journalSequence = journalSequence;
+      e.previousHash = previousHash;
+      e.hash = computeEventHash(chainedContent(e), previousHash);
+    });
+
+    await journal.update((j) => {
+      j.sequence = journalSequence;
+    });
+
+    return event;
+  }
+
+  /**
+   * Helper: Store a received event in a journal (without database.write wrapper)
+   * This is used WITHIN database.write() calls. Idempotent: an event that
+   * was already stored is returned as-is, so re-sending an outbox after a
+   * reconnect never counts a sale twice.
+   */
+  static async ingestEventInternal(
+    journalId: string,
+    envelope: EventEnvelope
+  ): Promise<JournalIngestResult> {
+    const existing = await this.findIngestedEventInternal(envelope);
+    if (existing) {
+      return { event: existing, duplicate: true };
+    }
+
+    const now = Date.now();
+    const event = await this.appendEventInternal(journalId, (e) => {
+      e._raw.id = envelope.id; // Same ID on every device
+      e.sequence = envelope.sequence;
+      e.globalId = toGlobalEventId(envelope.deviceId, envelope.sequence);
+      e.entity = envelope.entity;
+      e.entityId = envelope.entityId;
+      e.type = envelope.type;
+      e.payloadJson = envelope.payloadJson;
+      e.deviceId = envelope.deviceId;
+      e.relayId = envelope.relayId;
+      e.userId = envelope.userId;
+      e.venueId = envelope.venueId;
+      e.lamportClock = envelope.lamportClock;
+      e.schemaVersion = envelope.schemaVersion ?? 1;
+      e.causationId = envelope.causationId;
+      e.correlationId = envelope.correlationId;
+      e.baseEventId = envelope.baseEventId;
+      e.status = "acked";
+      e.ackedAt = now;
+    });
+
+    return { event, duplicate: false };
+  }
+
+  /**
+   * Helper: Find an already stored copy of a received event, by ID or global ID
+   * Throws EventIdentityConflictError if its global ID belongs to a
+   * different event.
+   */
+  static async findIngestedEventInternal(
+    envelope: EventEnvelope
+  ): Promise<Event | null> {
+    const globalId = toGlobalEventId(envelope.deviceId, envelope.sequence);
+    const existing = await eventsCollection
+      .query(
+        Q.or(Q.where("global_id", globalId), Q.where("id", envelope.id)),
+        Q.take(1)
+      )
+      .fetch();
+
+    if (existing.length === 0) {
+      return null;
+    }
+    if (existing[0].id !== envelope.id) {
+      throw new EventIdentityConflictError(globalId, existing[0].id);
+    }
+    return existing[0];
+  }
+
+  /**
+   * Accept an event sent by a till (or pulled from the cloud) into today's
+   * journal of that source
+   * Valid events are appended and applied to the relay's projections;
+   * malformed events and events breaking a business rule are rejected
+   * without being stored. Re-sent events are acknowledged again as-is; a
+   * different event reusing a stored global ID is rejected.
+   */
+  static async acceptEvent(
+    envelope: EventEnvelope,
+    source: JournalSource = "relay"
+  ): Promise<JournalAcceptResult> {
+    const eventId = String(envelope?.id);
+    const validationError = validateEventEnvelope(envelope);
+    if (validationError) {
+      return {
+        eventId,
+        status: "rejected",
+        errorMessage: validationError,
+        duplicate: false,
+      };
+    }
+
+    const result: JournalAcceptResult = await database.write(async () => {
+      let existing: Event | null;
+      try {
+        existing = await this.findIngestedEventInternal(envelope);
+      } catch (error) {
+        if (error instanceof EventIdentityConflictError) {
+          return {
+            eventId,
+            status: "rejected",
+            errorMessage: error.message,
+            duplicate: false,
+          };
+        }
+        throw error;
+      }
+      if (existing) {
+        return {
+          eventId,
+          status: existing.status === "rejected" ? "rejected" : "acked",
+          errorMessage: existing.errorMessage ?? undefined,
+          duplicate: true,
+        };
+      }
+
+      const payload = parseAndUpcastPayload(
+        envelope.type,
+        envelope.schemaVersion,
+        envelope.payloadJson,
+        { entityId: envelope.entityId, createdAt: envelope.createdAt }
+      );
+      const violations = await ProjectionService.checkInvariants(
+        envelope.entity,
+        envelope.entityId,
+        {
+          type: envelope.type,
+          payload: payload ?? {},
+          baseEventId: envelope.baseEventId,
+        }
+      );
+      if (violations.length > 0) {
+        return {
+          eventId,
+          status: "rejected",
+          errorMessage: violations.map((v) => v.message).join(" "),
+          duplicate: false,
+        };
+      }
+
+      const journal = await this.getOrCreateTodaysJournalInternal(source);
+      const { event } = await this.ingestEventInternal(journal.id, envelope);
+      await event.update((e) => {
+        e.appliedAt = Date.now();
+      });
+      await ProjectionService.projectEntityInternal(
+        envelope.entity,
+        envelope.entityId
+      );
+
+      return { eventId, status: "acked", duplicate: false, event };
+    });
+
+    if (result.event) {
+      this.notifyEventAppended(result.event);
+    }
+    return result;
+  }
+
+  /**
+   * Walk a journal's hash chain and report the first broken link
+   */
+  static async verifyJournal(
+    journalId: string
+  ): Promise<JournalVerificationResult> {
+    const journal = await journalsCollection.find(journalId);
+    const events = await this.getJournalEvents(journalId);
+
+    let previousHash = GENESIS_HASH;
+    for (let i = 0; i < events.length; i++) {
+      const event = events[i];
+      const expectedSequence = i + 1;
+      const broken = (
+        reason: NonNullable<JournalVerificationResult["brokenAt"]>["reason"]
+      ): JournalVerificationResult => ({
+        journalId,
+        valid: false,
+        checkedCount: i,
+        brokenAt: {
+          eventId: event.id,
+          journalSequence: expectedSequence,
+          reason,
+        },
+      });
+
+      if (!event.hash || !event.previousHash) {
+        return broken("missing_hash");
+      }
+      if (event.journalSequence !== expectedSequence) {
+        return broken("sequence_gap");
+      }
+      if (event.previousHash !== previousHash) {
+        return broken("previous_hash_mismatch");
+      }
+      if (
+        computeEventHash(chainedContent(event), previousHash) !== event.hash
+      ) {
+        return broken("hash_mismatch");
+      }
+
+      previousHash = event.hash;
+    }
+
+    // Events removed from the end of the chain
+    if (journal.sequence !== events.length) {
+      return {
+        journalId,
+        valid: false,
+        checkedCount: events.length,
+        brokenAt: {
+          journalSequence: events.length + 1,
+          reason: "journal_sequence_mismatch",
+        },
+      };
+    }
+
+    if (journal.closingHash) {
+      const closingHash = computeClosingHash({
+        journalId: journal.id,
+        date: journal.date,
+        source: journal.source,
+        deviceId: journal.deviceId,
+        venueId: journal.venueId,
+        eventCount: journal.sequence,
+        headHash: previousHash,
+      });
+      if (closingHash !== journal.closingHash) {
+        return {
+          journalId,
+          valid: false,
+          checkedCount: events.length,
+          brokenAt: {
+            journalSequence: journal.sequence,
+            reason: "closing_hash_mismatch",
+          },
+        };
+      }
+    }
+
+    return { journalId, valid: true, checkedCount: events.length };
+  }
+
   /**
    * Update journal sequence number
    */
@@ -84,11 +558,25 @@ export class JournalService {
   }
 
   /**
-   * Get events in a journal
+   * Get events in a journal, in chain order
+   * Page with afterSequence (exclusive) and limit.
    */
-  static async getJournalEvents(journalId: string) {
-    const journal = await journalsCollection.find(journalId);
-    return await journal.events.fetch();
+  static async getJournalEvents(
+    journalId: string,
+    options: { afterSequence?: number; limit?: number } = {}
+  ): Promise<Event[]> {
+    const { afterSequence, limit } = options;
+
+    return await eventsCollection
+      .query(
+        Q.where("journal_id", journalId),
+        ...(afterSequence !== undefined
+          ? [Q.where("journal_sequence", Q.gt(afterSequence))]
+          : []),
+        Q.sortBy("journal_sequence", Q.asc),
+        ...(limit !== undefined ? [Q.take(limit)] : [])
+      )
+      .fetch();
   }
 
   /**
@@ -0,0 +1,91 @@
+import { eventsCollection } from "@/db";
+import { Q } from "@nozbe/watermelondb";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+const LAMPORT_CLOCK_KEY = "@lamport_clock";
+
+export class LamportClockService {
+  private static clock: number | null = null;
+  private static loading: Promise<number> | null = null;
+
+  /**
+   * Load the persisted clock
+   * Call this once when the app starts
+   */
+  static async initialize(): Promise<number> {
+    if (this.clock !== null) {
+      return this.clock;
+    }
+
+    if (!this.loading) {
+      this.loading = this.load();
+    }
+
+    return await this.loading;
+  }
+
+  /**
+   * Get the current clock value without advancing it (must call initialize first)
+   */
+  static getCurrent(): number {
+    if (this.clock === null) {
+      throw new Error(
+        "LamportClockService not initialized. Call LamportClockService.initialize() first."
+      );
+    }
+    return this.clock;
+  }
+
+  /**
+   * Advance the clock for a local event and return the new value
+   */
+  static async tick(): Promise<number> {
+    await this.initialize();
+
+    // Read and increment synchronously so concurrent ticks never collide
+    const next = (this.clock as number) + 1;
+    this.clock = next;
+    await this.persist(next);
+    return next;
+  }
+
+  /**
+   * Merge a clock received from another device:
+   * local = max(local, remote) + 1
+   */
+  static async receive(remoteClock: number): Promise<number> {
+    await this.initialize();
+
+    const next = Math.max(this.clock as number, remoteClock) + 1;
+    this.clock = next;
+    await this.persist(next);
+    return next;
+  }
+
+  /**
+   * Read the stored clock, never going below the highest clock in the events table
+   */
+  private static async load(): Promise<number> {
+    const stored = await AsyncStorage.getItem(LAMPORT_CLOCK_KEY);
+    const storedClock = stored ? parseInt(stored, 10) || 0 : 0;
+
+    const latestEvents = await eventsCollection
+      .query(Q.sortBy("lamport_clock", Q.desc), Q.take(1))
+      .fetch();
+    const maxEventClock =
+      latestEvents.length > 0 ? latestEvents[0].lamportClock : 0;
+
+    // Keep whichever is ahead if the stored value was lost or is stale
+    this.clock = Math.max(storedClock, maxEventClock);
+    this.loading = null;
+    console.log("🕒 Lamport clock loaded:", this.clock);
+    return this.clock;
+  }
+
+  private static async persist(value: number): Promise<void> {
+    // Only write if no later tick has happened in the meantime
+    if (this.clock === value) {
+      await AsyncStorage.setItem(LAMPORT_CLOCK_KEY, String(value));
+    }
+  }
+}
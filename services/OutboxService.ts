@@ -18,25 +18,38 @@ export class OutboxService {
    * This ensures there's always an outbox for the current day
    */
   static async getOrCreateTodaysOutbox(): Promise<Outbox> {
+    const existingOutbox = await this.getOutboxByDate(this.getTodayDate());
+
+    if (existingOutbox) {
+      return existingOutbox;
+    }
+
+    // Create new outbox for today
+    return await database.write(async () => {
+      return await this.getOrCreateTodaysOutboxInternal();
+    });
+  }
+
+  /**
+   * Helper: Get or create today's outbox (without database.write wrapper)
+   * This is used WITHIN database.write() calls
+   */
+  static async getOrCreateTodaysOutboxInternal(): Promise<Outbox> {
     const todayDate = this.getTodayDate();
 
     // Try to find existing outbox for today
-    const existingOutbox = await outboxesCollection
-      .query(Q.where("date", todayDate))
-      .fetch();
+    const existingOutbox = await this.getOutboxByDate(todayDate);
 
-    if (existingOutbox.length > 0) {
-      return existingOutbox[0];
+    if (existingOutbox) {
+      return existingOutbox;
     }
 
-    // Create new outbox for today
-    return await database.write(async () => {
-      return await outboxesCollection.create((outbox) => {
-        outbox.date = todayDate;
-        outbox.status = "pending";
-        outbox.deviceId = DeviceService.getDeviceId();
-        outbox.venueId = DeviceService.getVenueId();
-      });
+    // Create new outbox - we're already in a write transaction
+    return await outboxesCollection.create((outbox) => {
+      outbox.date = todayDate;
+      outbox.status = "pending";
+      outbox.deviceId = DeviceService.getDeviceId();
+      outbox.venueId = DeviceService.getVenueId();
     });
   }
 
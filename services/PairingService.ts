@@ -0,0 +1,173 @@
+// services/PairingService.ts
+import {
+  PAIRING_CODE_DIGITS,
+  PAIRING_CODE_TTL_MS,
+  PAIRING_MAX_ATTEMPTS,
+} from "@/constants/protocol";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { getRandomValues } from "expo-crypto";
+import * as SecureStore from "expo-secure-store";
+
+const PAIRED_DEVICES_KEY = "@paired_devices";
+const RELAY_PAIRING_KEY = "relay_pairing";
+
+export interface PairingCode {
+  code: string;
+  expiresAt: number;
+}
+
+export interface PairedDevice {
+  deviceId: string;
+  pairedAt: number;
+  publicKey?: string; // Till's identity key, pinned when it paired
+}
+
+export interface RelayPairing {
+  relayId: string; // Device ID of the relay
+  secret: string;
+  relayPublicKey?: string; // Relay's identity key, pinned when pairing
+}
+
+/**
+ * SecureStore keys may only hold letters, digits, ".", "-" and "_"
+ */
+const deviceSecretKey = (deviceId: string) =>
+  `paired_device.${deviceId.replace(/[^\w.-]/g, "_")}`;
+
+/**
+ * Pairs tills with the relay
+ * The relay shows a one-time code; a till enters it when it connects and
+ * both derive the same secret from it. The secret then authenticates every
+ * connection and signs its messages, and each side pins the other's
+ * identity key. Secrets are kept in secure storage, the list of paired
+ * tills in AsyncStorage.
+ */
+export class PairingService {
+  private static activeCode: PairingCode | null = null;
+  private static failedAttempts = 0;
+
+  /**
+   * Relay: create a new one-time pairing code, replacing any active one
+   */
+  static createPairingCode(): PairingCode {
+    const digits = getRandomValues(new Uint32Array(PAIRING_CODE_DIGITS));
+    const code = Array.from(digits, (d) => String(d % 10)).join("");
+
+    this.activeCode = { code, expiresAt: Date.now() + PAIRING_CODE_TTL_MS };
+    this.failedAttempts = 0;
+    return this.activeCode;
+  }
+
+  /**
+   * Relay: the pairing code tills can currently pair with, if any
+   */
+  static getActivePairingCode(): PairingCode | null {
+    if (this.activeCode && this.activeCode.expiresAt <= Date.now()) {
+      this.activeCode = null;
+    }
+    return this.activeCode;
+  }
+
+  /**
+   * Relay: use up the pairing code after a till paired with it
+   */
+  static consumePairingCode() {
+    this.activeCode = null;
+    this.failedAttempts = 0;
+  }
+
+  /**
+   * Relay: count a wrong pairing attempt; the code is withdrawn after too
+   * many, so it cannot be guessed
+   */
+  static recordFailedPairing() {
+    this.failedAttempts++;
+    if (this.failedAttempts >= PAIRING_MAX_ATTEMPTS) {
+      this.consumePairingCode();
+    }
+  }
+
+  /**
+   * Relay: remember the secret shared with a till and its identity key
+   */
+  static async savePairedDevice(
+    deviceId: string,
+    secret: string,
+    publicKey: string
+  ) {
+    await SecureStore.setItemAsync(deviceSecretKey(deviceId), secret);
+
+    const devices = (await this.getPairedDevices()).filter(
+      (d) => d.deviceId !== deviceId
+    );
+    devices.push({ deviceId, pairedAt: Date.now(), publicKey });
+    await AsyncStorage.setItem(PAIRED_DEVICES_KEY, JSON.stringify(devices));
+  }
+
+  /**
+   * Relay: the secret shared with a till, or null if it is not paired
+   */
+  static async getDeviceSecret(deviceId: string): Promise<string | null> {
+    return await SecureStore.getItemAsync(deviceSecretKey(deviceId));
+  }
+
+  /**
+   * Relay: a paired till, or null if it is not paired
+   */
+  static async getPairedDevice(deviceId: string): Promise<PairedDevice | null> {
+    const devices = await this.getPairedDevices();
+    return devices.find((d) => d.deviceId === deviceId) ?? null;
+  }
+
+  /**
+   * Relay: all paired tills
+   */
+  static async getPairedDevices(): Promise<PairedDevice[]> {
+    const stored = await AsyncStorage.getItem(PAIRED_DEVICES_KEY);
+    try {
+      return stored ? JSON.parse(stored) : [];
+    } catch {
+      console.error("Invalid paired devices in storage, starting over");
+      return [];
+    }
+  }
+
+  /**
+   * Relay: forget a till; it has to pair again before it can connect
+   */
+  static async unpairDevice(deviceId: string) {
+    await SecureStore.deleteItemAsync(deviceSecretKey(deviceId));
+
+    const devices = (await this.getPairedDevices()).filter(
+      (d) => d.deviceId !== deviceId
+    );
+    await AsyncStorage.setItem(PAIRED_DEVICES_KEY, JSON.stringify(devices));
+  }
+
+  /**
+   * Till: remember the relay this till paired with
+   */
+  static async saveRelayPairing(pairing: RelayPairing) {
+    await SecureStore.setItemAsync(RELAY_PAIRING_KEY, JSON.stringify(pairing));
+  }
+
+  /**
+   * Till: the relay this till is paired with, if any
+   */
+  static async getRelayPairing(): Promise<RelayPairing | null> {
+    const stored = await SecureStore.getItemAsync(RELAY_PAIRING_KEY);
+    try {
+      return stored ? JSON.parse(stored) : null;
+    } catch {
+      console.error("Invalid relay pairing in storage, ignoring it");
+      return null;
+    }
+  }
+
+  /**
+   * Till: forget the paired relay
+   */
+  static async forgetRelayPairing() {
+    await SecureStore.deleteItemAsync(RELAY_PAIRING_KEY);
+  }
+}
@@ -0,0 +1,243 @@
+// services/ProjectionService.ts
+import { eventsCollection, ordersCollection } from "@/db";
+import { EntityType } from "@/models/Event";
+import Order, { OrderItem } from "@/models/Order";
+import {
+  DomainViolation,
+  foldEvents,
+  invariants,
+  InvariantSubject,
+  OrderState,
+  reduceOrder,
+  reducers,
+  sortEventsCausally,
+  toMillis,
+} from "@/projections";
+import { Model, Q } from "@nozbe/watermelondb";
+import { ConflictService } from "./ConflictService";
+
+export interface ProjectionFieldDiff {
+  field: keyof OrderState;
+  current: unknown;
+  rebuilt: unknown;
+}
+
+export interface ProjectionDiff {
+  entityId: string;
+  // missing: no row but events exist, extra: row without events
+  kind: "missing" | "extra" | "changed";
+  fields: ProjectionFieldDiff[];
+}
+
+const COMPARED_ORDER_FIELDS: (keyof OrderState)[] = [
+  "status",
+  "tableId",
+  "guestId",
+  "reservationId",
+  "items",
+  "openedAt",
+  "closedAt",
+  "voidedAt",
+  "subtotalCents",
+  "discountCents",
+  "taxCents",
+  "troncCents",
+  "totalCents",
+  "createdByEventId",
+  "updatedByEventId",
+];
+
+export class ProjectionService {
+  /**
+   * Write an order state onto an order row (inside a database.write builder)
+   */
+  static assignOrderState(o: Order, state: OrderState) {
+    o.status = state.status;
+    o.tableId = state.tableId;
+    o.guestId = state.guestId;
+    o.reservationId = state.reservationId;
+    o.itemsJson = JSON.stringify(state.items);
+    o.openedAt = state.openedAt;
+    o.closedAt = state.closedAt;
+    o.voidedAt = state.voidedAt;
+    o.subtotalCents = state.subtotalCents;
+    o.discountCents = state.discountCents;
+    o.taxCents = state.taxCents;
+    o.troncCents = state.troncCents;
+    o.totalCents = state.totalCents;
+    o.createdByEventId = state.createdByEventId;
+    o.updatedByEventId = state.updatedByEventId;
+  }
+
+  /**
+   * Read an order row back into the shape produced by the reducer
+   */
+  static readOrderState(order: Order): OrderState {
+    let items: OrderItem[] = [];
+    try {
+      items = JSON.parse(order.itemsJson);
+    } catch {
+      items = [];
+    }
+
+    return {
+      id: order.id,
+      status: order.status,
+      tableId: order.tableId || undefined,
+      guestId: order.guestId || undefined,
+      reservationId: order.reservationId || undefined,
+      items,
+      openedAt: toMillis(order.openedAt),
+      closedAt: order.closedAt ? toMillis(order.closedAt) : undefined,
+      voidedAt: order.voidedAt ? toMillis(order.voidedAt) : undefined,
+      subtotalCents: order.subtotalCents,
+      discountCents: order.discountCents,
+      taxCents: order.taxCents,
+      troncCents: order.troncCents,
+      totalCents: order.totalCents,
+      createdByEventId: order.createdByEventId,
+      updatedByEventId: order.updatedByEventId,
+      snapshots: {},
+      conflicts: [],
+    };
+  }
+
+  /**
+   * Compare an existing order row with a rebuilt state
+   * Returns the fields that differ (empty when they match)
+   */
+  static diffOrderState(
+    order: Order,
+    rebuilt: OrderState
+  ): ProjectionFieldDiff[] {
+    const current = this.readOrderState(order);
+
+    return COMPARED_ORDER_FIELDS.filter(
+      (field) =>
+        JSON.stringify(current[field] ?? null) !==
+        JSON.stringify(rebuilt[field] ?? null)
+    ).map((field) => ({
+      field,
+      current: current[field],
+      rebuilt: rebuilt[field],
+    }));
+  }
+
+  /**
+   * Fold all events of an order into its state (no writes)
+   */
+  static async computeOrderState(orderId: string): Promise<OrderState | null> {
+    const events = await eventsCollection
+      .query(Q.where("entity", "order"), Q.where("entity_id", orderId))
+      .fetch();
+
+    return foldEvents(reduceOrder, events);
+  }
+
+  /**
+   * Fold all events of any entity into its state (no writes)
+   * Entities without a reducer resolve to null.
+   */
+  static async computeEntityState(
+    entity: EntityType,
+    entityId: string
+  ): Promise<unknown> {
+    const reducer = reducers[entity];
+    if (!reducer) {
+      return null;
+    }
+
+    const events = await eventsCollection
+      .query(Q.where("entity", entity), Q.where("entity_id", entityId))
+      .fetch();
+
+    return foldEvents(reducer, events);
+  }
+
+  /**
+   * Latest event of an entity in causal order, ignoring rejected events
+   * Stored as the base of a new event to detect concurrent writes.
+   */
+  static async getEntityHead(
+    entity: EntityType,
+    entityId: string
+  ): Promise<string | undefined> {
+    const events = await eventsCollection
+      .query(
+        Q.where("entity", entity),
+        Q.where("entity_id", entityId),
+        Q.where("status", Q.notEq("rejected"))
+      )
+      .fetch();
+
+    const ordered = sortEventsCausally(events);
+    return ordered.length > 0 ? ordered[ordered.length - 1].id : undefined;
+  }
+
+  /**
+   * Check a command against the business rules of its entity
+   * Returns the broken rules (empty when the command is allowed)
+   */
+  static async checkInvariants(
+    entity: EntityType,
+    entityId: string,
+    command: InvariantSubject
+  ): Promise<DomainViolation[]> {
+    const check = invariants[entity];
+    if (!check) {
+      return [];
+    }
+
+    const state = await this.computeEntityState(entity, entityId);
+    return check(state, command);
+  }
+
+  /**
+   * Helper: Re-derive an order row from its events (without database.write wrapper)
+   * This is used WITHIN database.write() calls
+   */
+  static async projectOrderInternal(orderId: string): Promise<Order | null> {
+    const state = await this.computeOrderState(orderId);
+    const existing = await ordersCollection
+      .query(Q.where("id", orderId))
+      .fetch();
+
+    if (!state) {
+      return existing.length > 0 ? existing[0] : null;
+    }
+
+    await ConflictService.recordConflictsInternal(
+      "order",
+      orderId,
+      state.conflicts
+    );
+
+    if (existing.length > 0) {
+      await existing[0].update((o) => this.assignOrderState(o, state));
+      return existing[0];
+    }
+
+    // The order row shares its ID with the entity_id of its events
+    return await ordersCollection.create((o) => {
+      o._raw.id = state.id;
+      this.assignOrderState(o, state);
+    });
+  }
+
+  /**
+   * Helper: Re-derive the read model of any entity (without database.write wrapper)
+   * This is used WITHIN database.write() calls. Entities without a read
+   * model resolve to null.
+   */
+  static async projectEntityInternal(
+    entity: EntityType,
+    entityId: string
+  ): Promise<Model | null> {
+    switch (entity) {
+      case "order":
+        return await this.projectOrderInternal(entityId);
+      default:
+        return null;
+    }
+  }
+}
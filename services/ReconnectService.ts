@@ -0,0 +1,220 @@
+// services/ReconnectService.ts
+import {
+  RECONNECT_BASE_DELAY_MS,
+  RECONNECT_MAX_DELAY_MS,
+} from "@/constants/protocol";
+import { HandshakeRejectedError } from "@/utils/ProtocolHandshake";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import TcpService from "./TcpService";
+
+const LAST_RELAY_ADDRESS_KEY = "@last_relay_address";
+
+export interface RelayAddress {
+  host: string;
+  port: number;
+}
+
+export interface ReconnectState {
+  reconnecting: boolean;
+  attempt: number; // Reconnect attempts since the connection was lost
+  nextRetryAt: number | null; // When the next attempt starts, if waiting
+}
+
+export type ReconnectListener = (state: ReconnectState) => void;
+
+const IDLE: ReconnectState = {
+  reconnecting: false,
+  attempt: 0,
+  nextRetryAt: null,
+};
+
+/**
+ * Exponential backoff with jitter, so tills do not all retry at once
+ * when the relay comes back
+ */
+export function reconnectDelay(attempt: number): number {
+  const delay = Math.min(
+    RECONNECT_MAX_DELAY_MS,
+    RECONNECT_BASE_DELAY_MS * 2 ** (attempt - 1)
+  );
+  return delay / 2 + Math.random() * (delay / 2);
+}
+
+/**
+ * Keeps a till connected to its relay
+ * Remembers the relay the till last connected to and, when the connection
+ * is lost, reconnects with the saved pairing until it succeeds or is told
+ * to stop. A relay refusing the handshake ends the retries, since the same
+ * handshake would be refused again. Outbox sync resumes by itself once the
+ * connection is back.
+ */
+export class ReconnectService {
+  private address: RelayAddress | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private connecting = false;
+  private state: ReconnectState = IDLE;
+  private listeners: Set<ReconnectListener> = new Set();
+  private removeDelegate: (() => void) | null = null;
+
+  constructor(private tcpService: TcpService) {}
+
+  /**
+   * The relay this till last connected to, reconnected to at launch
+   */
+  static async getLastRelayAddress(): Promise<RelayAddress | null> {
+    const stored = await AsyncStorage.getItem(LAST_RELAY_ADDRESS_KEY);
+    try {
+      return stored ? JSON.parse(stored) : null;
+    } catch {
+      console.error("Invalid relay address in storage, ignoring it");
+      return null;
+    }
+  }
+
+  /**
+   * Reconnect whenever the connection to the relay is lost
+   */
+  start() {
+    if (this.removeDelegate) {
+      return;
+    }
+
+    this.removeDelegate = this.tcpService.addDelegate({
+      onConnectionClosed: () => this.scheduleRetry(),
+    });
+  }
+
+  stop() {
+    this.removeDelegate?.();
+    this.removeDelegate = null;
+    this.cancel();
+  }
+
+  /**
+   * Connect to a relay and keep reconnecting to it from now on
+   * The pairing code is only needed for the first connection; reconnects
+   * use the pairing saved by it.
+   */
+  async connect(host: string, port: number, pairingCode?: string) {
+    this.cancel();
+    this.connecting = true;
+    try {
+      await this.tcpService.connectToServer(host, port, pairingCode);
+    } finally {
+      this.connecting = false;
+    }
+
+    this.address = { host, port };
+    await AsyncStorage.setItem(
+      LAST_RELAY_ADDRESS_KEY,
+      JSON.stringify(this.address)
+    );
+  }
+
+  /**
+   * Reconnect to a relay this till connected to before, e.g. the last one
+   * when the app launches; retries until it succeeds or is cancelled
+   */
+  resume(address: RelayAddress) {
+    this.cancel();
+    this.address = address;
+    this.setState({ reconnecting: true, attempt: 1, nextRetryAt: null });
+    this.retry();
+  }
+
+  /**
+   * Disconnect on purpose: stop reconnecting, also on the next launch
+   */
+  async forget() {
+    this.cancel();
+    await AsyncStorage.removeItem(LAST_RELAY_ADDRESS_KEY);
+  }
+
+  /**
+   * Stop reconnecting until connect is called again, e.g. before
+   * disconnecting on purpose
+   */
+  cancel() {
+    this.address = null;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.setState(IDLE);
+  }
+
+  getState(): ReconnectState {
+    return this.state;
+  }
+
+  /**
+   * Listen to reconnect state changes
+   * Returns a function removing the listener again
+   */
+  addListener(listener: ReconnectListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private scheduleRetry() {
+    // A connection attempt reports its own failure
+    if (!this.address || this.timer || this.connecting) {
+      return;
+    }
+
+    const attempt = this.state.attempt + 1;
+    const delay = reconnectDelay(attempt);
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.retry();
+    }, delay);
+    this.setState({
+      reconnecting: true,
+      attempt,
+      nextRetryAt: Date.now() + delay,
+    });
+  }
+
+  private async retry() {
+    const address = this.address;
+    if (!address) {
+      return;
+    }
+
+    this.connecting = true;
+    this.setState({ ...this.state, nextRetryAt: null });
+    try {
+      await this.tcpService.connectToServer(address.host, address.port);
+      this.connecting = false;
+      console.log(
+        `Reconnected to the relay after ${this.state.attempt} attempt(s)`
+      );
+      this.setState(IDLE);
+    } catch (error) {
+      this.connecting = false;
+      if (error instanceof HandshakeRejectedError) {
+        console.warn("Stopped reconnecting to the relay:", error.reason);
+        this.cancel();
+        return;
+      }
+      console.warn(
+        `Reconnect attempt ${this.state.attempt} failed:`,
+        error instanceof Error ? error.message : error
+      );
+      this.scheduleRetry();
+    }
+  }
+
+  private setState(state: ReconnectState) {
+    this.state = state;
+    this.listeners.forEach((listener) => {
+      try {
+        listener(state);
+      } catch (error) {
+        console.error("Error in reconnect listener:", error);
+      }
+    });
+  }
+}
@@ -0,0 +1,236 @@
+// services/RpcService.ts
+import { RPC_TIMEOUT_MS } from "@/constants/protocol";
+import randomId from "@nozbe/watermelondb/utils/common/randomId";
+import {
+  CatchUpRequestData,
+  CatchUpResponseData,
+  EventAckResult,
+  EventBatchData,
+} from "./SyncService";
+import TcpService, { TcpMessage } from "./TcpService";
+
+/**
+ * Every RPC method with its params and result
+ * Handlers run on the relay; tills call them.
+ */
+export interface RpcMethods {
+  push_events: { params: EventBatchData; result: EventAckResult[] };
+  catch_up: { params: CatchUpRequestData; result: CatchUpResponseData };
+}
+
+export type RpcMethod = keyof RpcMethods;
+export type RpcParams<M extends RpcMethod> = RpcMethods[M]["params"];
+export type RpcResult<M extends RpcMethod> = RpcMethods[M]["result"];
+
+/**
+ * The authenticated till that made a call
+ */
+export interface RpcContext {
+  deviceId: string;
+  userId: string;
+  venueId: string;
+}
+
+export type RpcHandler<M extends RpcMethod> = (
+  params: RpcParams<M>,
+  context: RpcContext
+) => Promise<RpcResult<M>>;
+
+/**
+ * Data of an "rpc_request" message
+ */
+export interface RpcRequestData {
+  id: string;
+  method: string;
+  params: unknown;
+}
+
+/**
+ * Data of an "rpc_response" message: the result, or why there is none
+ */
+export interface RpcResponseData {
+  id: string;
+  result?: unknown;
+  error?: { code: RpcErrorCode; message: string };
+}
+
+export type RpcErrorCode =
+  | "timeout"
+  | "not_connected"
+  | "connection_closed"
+  | "unknown_method"
+  | "handler_failed";
+
+/**
+ * A call that did not return a result
+ */
+export class RpcError extends Error {
+  constructor(message: string, public readonly code: RpcErrorCode) {
+    super(message);
+    this.name = "RpcError";
+  }
+}
+
+interface PendingCall {
+  resolve: (result: any) => void;
+  reject: (error: Error) => void;
+  timeout: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Request/response calls from tills to the relay over TcpService
+ * Each request carries an ID the relay's response echoes, so several calls
+ * can be in flight at once. A call fails when it times out or the
+ * connection closes before the response arrives.
+ */
+export class RpcService {
+  private handlers: Map<string, RpcHandler<any>> = new Map();
+  private pendingCalls: Map<string, PendingCall> = new Map();
+  private removeDelegate: (() => void) | null = null;
+
+  constructor(private tcpService: TcpService) {}
+
+  start() {
+    if (this.removeDelegate) {
+      return;
+    }
+
+    this.removeDelegate = this.tcpService.addDelegate({
+      onConnectionClosed: () =>
+        this.failPendingCalls("Connection closed", "connection_closed"),
+      onMessageReceived: (message) => this.handleMessage(message),
+    });
+  }
+
+  stop() {
+    this.removeDelegate?.();
+    this.removeDelegate = null;
+    this.failPendingCalls("RPC stopped", "connection_closed");
+  }
+
+  /**
+   * Relay: answer calls to a method
+   * Returns a function removing the handler again
+   */
+  register<M extends RpcMethod>(method: M, handler: RpcHandler<M>) {
+    this.handlers.set(method, handler);
+    return () => {
+      if (this.handlers.get(method) === handler) {
+        this.handlers.delete(method);
+      }
+    };
+  }
+
+  /**
+   * Till: call a method on the relay and wait for its result
+   */
+  call<M extends RpcMethod>(
+    method: M,
+    params: RpcParams<M>,
+    timeoutMs: number = RPC_TIMEOUT_MS
+  ): Promise<RpcResult<M>> {
+    if (this.tcpService.getRole() !== "client") {
+      return Promise.reject(
+        new RpcError(`Cannot call ${method}: not connected`, "not_connected")
+      );
+    }
+
+    const id = randomId();
+    return new Promise((resolve, reject) => {
+      const timeout = setTimeout(() => {
+        this.pendingCalls.delete(id);
+        reject(new RpcError(`No response to ${method} (${id})`, "timeout"));
+      }, timeoutMs);
+
+      this.pendingCalls.set(id, { resolve, reject, timeout });
+
+      const data: RpcRequestData = { id, method, params };
+      this.tcpService.sendMessage({ type: "rpc_request", data });
+    });
+  }
+
+  private handleMessage(message: TcpMessage) {
+    if (
+      message.type === "rpc_request" &&
+      this.tcpService.getRole() === "server"
+    ) {
+      this.answer(message).catch((error) =>
+        console.error("Error answering RPC request:", error)
+      );
+    } else if (
+      message.type === "rpc_response" &&
+      this.tcpService.getRole() === "client"
+    ) {
+      this.settle(message.data as RpcResponseData);
+    }
+  }
+
+  /**
+   * Relay: run the handler and reply to the calling till only
+   */
+  private async answer(message: TcpMessage) {
+    const request = message.data as RpcRequestData;
+    const reply = (response: RpcResponseData) => {
+      this.tcpService.sendToClient(message.deviceId, {
+        type: "rpc_response",
+        data: response,
+      });
+    };
+
+    const handler = this.handlers.get(request?.method);
+    if (!handler) {
+      reply({
+        id: request?.id,
+        error: {
+          code: "unknown_method",
+          message: `Unknown method ${request?.method}`,
+        },
+      });
+      return;
+    }
+
+    try {
+      const result = await handler(request.params, {
+        deviceId: message.deviceId,
+        userId: message.userId,
+        venueId: message.venueId,
+      });
+      reply({ id: request.id, result });
+    } catch (error) {
+      console.error(`Error handling ${request.method}:`, error);
+      reply({
+        id: request.id,
+        error: {
+          code: "handler_failed",
+          message: error instanceof Error ? error.message : String(error),
+        },
+      });
+    }
+  }
+
+  /**
+   * Till: resolve or reject the call a response belongs to
+   */
+  private settle(response: RpcResponseData) {
+    const pending = this.pendingCalls.get(response?.id);
+    if (!pending) {
+      return; // Timed out already
+    }
+
+    clearTimeout(pending.timeout);
+    this.pendingCalls.delete(response.id);
+    if (response.error) {
+      pending.reject(new RpcError(response.error.message, response.error.code));
+    } else {
+      pending.resolve(response.result);
+    }
+  }
+
+  private failPendingCalls(reason: string, code: RpcErrorCode) {
+    this.pendingCalls.forEach((pending) => {
+      clearTimeout(pending.timeout);
+      pending.reject(new RpcError(reason, code));
+    });
+    this.pendingCalls.clear();
+  }
+}
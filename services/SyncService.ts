@@ -0,0 +1,456 @@
+// services/SyncService.ts
+import { eventsCollection } from "@/db";
+import Event, { EventStatus } from "@/models/Event";
+import { EventEnvelope } from "@/models/EventPayload";
+import { Q } from "@nozbe/watermelondb";
+import { EventService } from "./EventService";
+import { JournalCursors, JournalCursorService } from "./JournalCursorService";
+import { JournalService } from "./JournalService";
+import { OutboxService } from "./OutboxService";
+import { RpcContext, RpcService } from "./RpcService";
+import TcpService, { TcpMessage } from "./TcpService";
+
+// Events per push_events call
+const BATCH_SIZE = 50;
+
+// How long to wait for the relay to acknowledge a batch
+const ACK_TIMEOUT_MS = 10000;
+
+// Journal events per catch_up page
+const CATCH_UP_PAGE_SIZE = 100;
+
+// Besides today, how many past days of journals a till can catch up on
+const CATCH_UP_DAYS = 1;
+
+/**
+ * Params of a "push_events" call: outbox events sent to the relay
+ */
+export interface EventBatchData {
+  events: EventEnvelope[];
+}
+
+/**
+ * The relay's verdict on one event of a batch
+ */
+export interface EventAckResult {
+  eventId: string;
+  status: Exclude<EventStatus, "pending">;
+  errorMessage?: string;
+}
+
+/**
+ * Data of a "journal_event" message: an event the relay appended to its
+ * journal, broadcast to every till
+ */
+export interface JournalEventData {
+  journalId: string;
+  journalSequence: number;
+  event: EventEnvelope;
+}
+
+/**
+ * Params of a "catch_up" call: a till asking for the journal events after
+ * its cursors
+ */
+export interface CatchUpRequestData {
+  cursors: JournalCursors;
+  limit?: number;
+}
+
+/**
+ * Result of a "catch_up" call: one page of missed journal events
+ * The till asks for the next page once it has applied this one.
+ */
+export interface CatchUpResponseData {
+  events: JournalEventData[];
+  hasMore: boolean;
+}
+
+/**
+ * Whether two sets of cursors point at the same journal positions
+ */
+function sameCursors(a: JournalCursors, b: JournalCursors): boolean {
+  const journals = Object.keys(a);
+  return (
+    journals.length === Object.keys(b).length &&
+    journals.every((journalId) => a[journalId] === b[journalId])
+  );
+}
+
+/**
+ * Streams pending outbox events from a till to the relay
+ * Each outbox goes pending → syncing → synced; each event is acked or
+ * rejected once the relay has decided on it. On the relay, the same
+ * engine accepts incoming batches into the journal and acknowledges them.
+ */
+export class SyncService {
+  private removeDelegate: (() => void) | null = null;
+  private removeHandlers: (() => void)[] = [];
+  private removeAppendListener: (() => void) | null = null;
+  private pendingSubscription: { unsubscribe: () => void } | null = null;
+  private syncing: Promise<void> | null = null;
+  private resyncRequested = false;
+  // Broadcast events are ingested one at a time, in the order received
+  private inbound: Promise<void> = Promise.resolve();
+  private catchingUp: Promise<void> | null = null;
+  private catchUpRequested = false;
+
+  constructor(private tcpService: TcpService, private rpcService: RpcService) {}
+
+  /**
+   * Sync and catch up on connect, and sync whenever new events are queued
+   * On the relay, also broadcast every journal event to the tills
+   */
+  start() {
+    if (this.removeDelegate) {
+      return;
+    }
+
+    this.removeDelegate = this.tcpService.addDelegate({
+      onConnectionEstablished: () => {
+        this.requestSync();
+        this.requestCatchUp();
+      },
+      onMessageReceived: (message) => this.handleMessage(message),
+    });
+
+    // Calls from tills only reach these on the relay
+    this.removeHandlers = [
+      this.rpcService.register("push_events", (batch, context) =>
+        this.acceptBatch(batch, context)
+      ),
+      this.rpcService.register("catch_up", (request) =>
+        this.answerCatchUp(request)
+      ),
+    ];
+
+    this.removeAppendListener = JournalService.addAppendListener((event) =>
+      this.broadcastJournalEvent(event)
+    );
+
+    this.pendingSubscription = eventsCollection
+      .query(Q.where("status", "pending"), Q.where("outbox_id", Q.notEq(null)))
+      .observeCount(false)
+      .subscribe((count) => {
+        if (count > 0) {
+          this.requestSync();
+        }
+      });
+  }
+
+  stop() {
+    this.removeDelegate?.();
+    this.removeDelegate = null;
+    this.removeAppendListener?.();
+    this.removeAppendListener = null;
+    this.pendingSubscription?.unsubscribe();
+    this.pendingSubscription = null;
+    this.removeHandlers.forEach((remove) => remove());
+    this.removeHandlers = [];
+  }
+
+  /**
+   * Start a sync, or queue another pass if one is already running
+   */
+  requestSync() {
+    if (this.syncing) {
+      this.resyncRequested = true;
+      return;
+    }
+
+    this.syncing = this.syncPendingOutboxes()
+      .catch((error) => console.error("Outbox sync failed:", error))
+      .finally(() => {
+        this.syncing = null;
+        if (this.resyncRequested) {
+          this.resyncRequested = false;
+          this.requestSync();
+        }
+      });
+  }
+
+  /**
+   * Ask the relay for the journal events after this till's cursors,
+   * or queue another pass if a catch-up is already running
+   */
+  requestCatchUp() {
+    if (this.tcpService.getRole() !== "client") {
+      return;
+    }
+    if (this.catchingUp) {
+      this.catchUpRequested = true;
+      return;
+    }
+
+    this.catchingUp = this.catchUp()
+      .catch((error) => console.error("Catch-up failed:", error))
+      .finally(() => {
+        this.catchingUp = null;
+        if (this.catchUpRequested) {
+          this.catchUpRequested = false;
+          this.requestCatchUp();
+        }
+      });
+  }
+
+  /**
+   * Till: fetch and apply pages of missed events until there are no more
+   */
+  private async catchUp(): Promise<void> {
+    while (true) {
+      const request: CatchUpRequestData = {
+        cursors: await JournalCursorService.getCursors(),
+        limit: CATCH_UP_PAGE_SIZE,
+      };
+      const page = await this.rpcService.call("catch_up", request);
+
+      const events = Array.isArray(page?.events) ? page.events : [];
+      events.forEach((event) => this.enqueueJournalEvent(event));
+      // The cursors only move once the page is applied
+      await this.inbound;
+
+      if (!page?.hasMore) {
+        return;
+      }
+
+      // Asking again would return the same page, e.g. when its first
+      // event cannot be applied; the next gap starts another catch-up
+      const cursors = await JournalCursorService.getCursors();
+      if (sameCursors(cursors, request.cursors)) {
+        throw new Error(
+          `Stopped catching up: a page of ${events.length} event(s) did not move the journal cursors`
+        );
+      }
+    }
+  }
+
+  /**
+   * Send every pending outbox event to the relay, oldest outbox first
+   */
+  private async syncPendingOutboxes(): Promise<void> {
+    if (this.tcpService.getRole() !== "client") {
+      return; // Only tills sync; the relay owns the journal
+    }
+
+    const pendingEvents = await EventService.getPendingEvents();
+    const eventsByOutbox = new Map<string, Event[]>();
+    for (const event of pendingEvents) {
+      if (event.outboxId) {
+        const events = eventsByOutbox.get(event.outboxId) ?? [];
+        events.push(event);
+        eventsByOutbox.set(event.outboxId, events);
+      }
+    }
+
+    for (const [outboxId, events] of eventsByOutbox) {
+      await this.syncOutbox(outboxId, events);
+    }
+  }
+
+  private async syncOutbox(outboxId: string, events: Event[]): Promise<void> {
+    await OutboxService.markOutboxAsSyncing(outboxId);
+
+    try {
+      for (let i = 0; i < events.length; i += BATCH_SIZE) {
+        const batch = events.slice(i, i + BATCH_SIZE);
+        const results = await this.sendBatch(batch);
+
+        for (const result of results) {
+          await EventService.updateEventStatus(
+            result.eventId,
+            result.status,
+            result.errorMessage
+          );
+        }
+      }
+    } catch (error) {
+      // Try again on the next sync
+      await OutboxService.updateOutboxStatus(outboxId, "pending");
+      throw error;
+    }
+
+    // Events queued while the batches were in flight keep it pending
+    const remaining = await eventsCollection
+      .query(Q.where("outbox_id", outboxId), Q.where("status", "pending"))
+      .fetchCount();
+    if (remaining > 0) {
+      await OutboxService.updateOutboxStatus(outboxId, "pending");
+    } else {
+      await OutboxService.markOutboxAsSynced(outboxId);
+    }
+  }
+
+  /**
+   * Send one batch and wait for the relay's acknowledgement
+   */
+  private async sendBatch(events: Event[]): Promise<EventAckResult[]> {
+    const batch: EventBatchData = {
+      events: events.map((event) => EventService.toEnvelope(event)),
+    };
+    const results = await this.rpcService.call(
+      "push_events",
+      batch,
+      ACK_TIMEOUT_MS
+    );
+    return Array.isArray(results) ? results : [];
+  }
+
+  private handleMessage(message: TcpMessage) {
+    // Only the relay's journal is authoritative; a journal_event from any
+    // other device is not an accepted event
+    if (
+      message.type === "journal_event" &&
+      message.deviceId === this.tcpService.getConnectionInfo()?.relayId
+    ) {
+      this.enqueueJournalEvent(message.data as JournalEventData);
+    }
+  }
+
+  /**
+   * Relay: append a till's events to the journal and acknowledge them
+   * A till may only push events it issued itself, for the relay's venue.
+   */
+  private async acceptBatch(
+    batch: EventBatchData,
+    context: RpcContext
+  ): Promise<EventAckResult[]> {
+    const envelopes = Array.isArray(batch?.events) ? batch.events : [];
+
+    const results: EventAckResult[] = [];
+    for (const envelope of envelopes) {
+      const mismatch = this.checkSender(envelope, context);
+      if (mismatch) {
+        results.push({
+          eventId: String(envelope?.id),
+          status: "rejected",
+          errorMessage: mismatch,
+        });
+        continue;
+      }
+
+      try {
+        const { eventId, status, errorMessage } =
+          await JournalService.acceptEvent(envelope);
+        results.push({ eventId, status, errorMessage });
+      } catch (error) {
+        // Not acknowledged, so the till sends it again on its next sync
+        console.error(`Error accepting event ${envelope?.id}:`, error);
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Relay: why a till may not push an event, or null if it may
+   */
+  private checkSender(
+    envelope: EventEnvelope,
+    context: RpcContext
+  ): string | null {
+    if (envelope?.deviceId !== context.deviceId) {
+      return `Event was issued by device ${envelope?.deviceId}, but sent by device ${context.deviceId}`;
+    }
+    // The till declares its venue itself, so only the relay's own counts
+    const venueId = this.tcpService.getVenueId();
+    if (envelope.venueId !== venueId) {
+      return `Event belongs to venue ${envelope.venueId}, but this relay serves venue ${venueId}`;
+    }
+    return null;
+  }
+
+  /**
+   * Relay: send a journal event to every connected till
+   */
+  private broadcastJournalEvent(event: Event) {
+    if (this.tcpService.getRole() !== "server" || !event.journalId) {
+      return;
+    }
+
+    this.tcpService.sendMessage({
+      type: "journal_event",
+      data: this.toJournalEventData(event),
+    });
+  }
+
+  /**
+   * Relay: one page of journal events after a till's cursors
+   */
+  private async answerCatchUp(
+    request: CatchUpRequestData
+  ): Promise<CatchUpResponseData> {
+    const cursors = request?.cursors ?? {};
+    const pageSize = Math.min(
+      request?.limit ?? CATCH_UP_PAGE_SIZE,
+      CATCH_UP_PAGE_SIZE
+    );
+
+    const since = new Date();
+    since.setDate(since.getDate() - CATCH_UP_DAYS);
+    const journals = await JournalService.getJournalsSince(
+      since.toISOString().split("T")[0]
+    );
+
+    const events: JournalEventData[] = [];
+    let hasMore = false;
+    for (const journal of journals) {
+      const afterSequence = cursors[journal.id] ?? 0;
+      if (journal.sequence <= afterSequence) {
+        continue; // Nothing new in this journal
+      }
+      if (events.length >= pageSize) {
+        hasMore = true;
+        break;
+      }
+
+      const page = await JournalService.getJournalEvents(journal.id, {
+        afterSequence,
+        limit: pageSize - events.length,
+      });
+      events.push(...page.map((event) => this.toJournalEventData(event)));
+
+      if (afterSequence + page.length < journal.sequence) {
+        hasMore = true;
+        break;
+      }
+    }
+
+    return { events, hasMore };
+  }
+
+  /**
+   * Till: apply a journal event from the relay to the local read model
+   * The cursor only moves over contiguous events; a gap triggers a catch-up.
+   */
+  private enqueueJournalEvent(data: JournalEventData) {
+    if (this.tcpService.getRole() !== "client" || !data?.event) {
+      return;
+    }
+
+    this.inbound = this.inbound
+      .then(async () => {
+        await EventService.ingestAcceptedEvent(data.event);
+
+        const cursor = await JournalCursorService.getCursor(data.journalId);
+        if (data.journalSequence === cursor + 1) {
+          await JournalCursorService.advance(
+            data.journalId,
+            data.journalSequence
+          );
+        } else if (data.journalSequence > cursor + 1) {
+          this.requestCatchUp(); // Missed events while disconnected
+        }
+      })
+      .catch((error) =>
+        console.error(`Error ingesting journal event ${data.event.id}:`, error)
+      );
+  }
+
+  private toJournalEventData(event: Event): JournalEventData {
+    return {
+      journalId: event.journalId ?? "",
+      journalSequence: event.journalSequence ?? 0,
+      event: EventService.toEnvelope(event),
+    };
+  }
+}
@@ -1,7 +1,44 @@
+import randomId from "@nozbe/watermelondb/utils/common/randomId";
 import * as Device from "expo-device";
 import TcpSocket from "react-native-tcp-socket";
 
+import {
+  HANDSHAKE_TIMEOUT_MS,
+  HEARTBEAT_INTERVAL_MS,
+  LIVENESS_CHECK_INTERVAL_MS,
+  MessageType,
+  PEER_TIMEOUT_MS,
+} from "@/constants/protocol";
+import {
+  createNonce,
+  derivePairingSecret,
+  MessageAuth,
+  deriveSessionKey,
+  PeerSession,
+} from "@/utils/MessageAuth";
+import {
+  encodeFrame,
+  FrameCipher,
+  FrameDecoder,
+  FrameError,
+} from "@/utils/MessageFraming";
+import {
+  checkHandshake,
+  createHandshake,
+  HandshakeInfo,
+  HandshakeRejectedError,
+} from "@/utils/ProtocolHandshake";
+import {
+  deriveTransportCiphers,
+  generateKeyPair,
+  isPublicKey,
+  keyFingerprint,
+  TransportKeys,
+} from "@/utils/SecureChannel";
 import { DeviceService } from "./DeviceService";
+import { IdentityKeyService } from "./IdentityKeyService";
+import { LamportClockService } from "./LamportClockService";
+import { PairingService, RelayPairing } from "./PairingService";
 
 /**
  * Determine if this device is a relay based on Device Operating System
@@ -17,25 +54,127 @@ console.log(
   })`
 );
 
+/**
+ * Who a message is for: one device, every device of a role, or every
+ * device in a group (e.g. the kitchen displays)
+ */
+export type MessageTarget =
+  | { deviceId: string }
+  | { role: "relay" | "till" }
+  | { group: string };
+
 export interface TcpMessage {
-  type: "sync" | "update" | "heartbeat" | "join" | "leave";
+  id?: string;
+  type: MessageType;
+  to?: MessageTarget; // Everyone when not set
   deviceId: string;
   userId: string;
   venueId: string;
   timestamp: number;
+  lamportClock?: number; // Sender's Lamport clock, merged on receive
   data?: any;
+  auth?: MessageAuth; // Set on every message once the connection is authenticated
+}
+
+// Point-to-point sync messages, never relayed to other clients
+const UNRELAYED_MESSAGE_TYPES: TcpMessage["type"][] = [
+  "heartbeat",
+  "welcome",
+  "reject",
+  "authenticate",
+  "authenticated",
+  "rpc_request",
+  "rpc_response",
+  "delivery_failed",
+  "journal_event",
+];
+
+// Sent by the relay only; dropped when a till sends them
+const RELAY_ONLY_MESSAGE_TYPES: TcpMessage["type"][] = ["journal_event"];
+
+/**
+ * Relay: why a signed message from an authenticated till is dropped, or
+ * null if it is handled
+ */
+export function checkTillMessage(
+  message: TcpMessage,
+  clientId: string,
+  venueId: string | undefined
+): string | null {
+  if (message.deviceId !== clientId || message.venueId !== venueId) {
+    return `claiming to be ${message.deviceId} (venue ${message.venueId})`;
+  }
+  if (
+    message.to !== undefined &&
+    (typeof message.to !== "object" || message.to === null)
+  ) {
+    return "with an invalid target";
+  }
+  if (RELAY_ONLY_MESSAGE_TYPES.includes(message.type)) {
+    return "that only the relay may send";
+  }
+  return null;
 }
 
+// A message as handed to sendMessage, before sender fields are stamped
+export type OutgoingTcpMessage = Omit<
+  TcpMessage,
+  "id" | "deviceId" | "userId" | "venueId" | "timestamp" | "lamportClock"
+>;
+
+/**
+ * Data of a "delivery_failed" message: no connected device matched the
+ * target of an addressed message
+ */
+export interface DeliveryFailedData {
+  messageId?: string;
+  type: MessageType;
+  to: MessageTarget;
+  reason: string;
+}
+
+const describeTarget = (to: MessageTarget) =>
+  "deviceId" in to
+    ? `device ${to.deviceId}`
+    : "role" in to
+    ? `any ${to.role}`
+    : `group ${to.group}`;
+
 export interface TcpConnectionInfo {
   address: string;
   port: number;
   deviceId: string;
   userId: string;
   venueId: string;
+  appVersion?: string; // From the peer's handshake
+  fingerprint?: string; // Of the peer's identity key
+  groups?: string[]; // Groups a till can be addressed by
+  relayId?: string; // Device ID of the relay a till is connected to
+}
+
+// Identity keys of both ends as each end saw them, signed in the
+// handshake so a device in the middle without the pairing secret is noticed
+interface IdentityKeys {
+  till: string;
+  relay: string;
+}
+
+const sameIdentityKeys = (seen: IdentityKeys, signed: any) =>
+  signed?.till === seen.till && signed?.relay === seen.relay;
+
+// An authenticated connection: messages are signed, then encrypted
+interface PeerChannel {
+  session: PeerSession;
+  cipher: FrameCipher;
 }
 
 export type TcpRole = "server" | "client" | "none";
 
+export interface TcpLivenessOptions {
+  heartbeatIntervalMs: number;
+  peerTimeoutMs: number; // Silence after which a peer counts as gone
+}
+
 export interface TcpServiceDelegate {
   onConnectionEstablished?: (info: TcpConnectionInfo) => void;
   onConnectionClosed?: () => void;
@@ -45,6 +184,10 @@ export interface TcpServiceDelegate {
     clientInfo: Partial<TcpConnectionInfo>
   ) => void;
   onClientDisconnected?: (clientId: string) => void;
+  // Client: the relay went silent, or was heard from again
+  onRelayResponsivenessChanged?: (responsive: boolean) => void;
+  // An addressed message sent from here reached nobody
+  onDeliveryFailed?: (failure: DeliveryFailedData) => void;
   onError?: (error: Error) => void;
 }
 
@@ -54,14 +197,57 @@ class TcpService {
   private connectedClients: Map<string, any> = new Map();
   private clientsInfo: Map<string, Partial<TcpConnectionInfo>> = new Map();
   private role: TcpRole = "none";
+  private connectionInfo: TcpConnectionInfo | null = null;
   private delegate: TcpServiceDelegate | null = null;
+  private delegates: Set<TcpServiceDelegate> = new Set();
   private heartbeatInterval: NodeJS.Timeout | null = null;
+  private livenessInterval: NodeJS.Timeout | null = null;
+  private channels: Map<string, PeerChannel> = new Map(); // Per client (server)
+  private serverChannel: PeerChannel | null = null; // To the relay (client)
+  private lastSeen: Map<string, number> = new Map(); // Per client (server)
+  private serverLastSeen = 0; // Relay (client)
+  private relayResponsive = true;
+  private liveness: TcpLivenessOptions;
 
-  // constructor() {
-  // }
+  constructor(liveness: Partial<TcpLivenessOptions> = {}) {
+    this.liveness = {
+      heartbeatIntervalMs: HEARTBEAT_INTERVAL_MS,
+      peerTimeoutMs: PEER_TIMEOUT_MS,
+      ...liveness,
+    };
+  }
 
   public setDelegate(delegate: TcpServiceDelegate) {
+    if (this.delegate) {
+      this.delegates.delete(this.delegate);
+    }
     this.delegate = delegate;
+    this.delegates.add(delegate);
+  }
+
+  /**
+   * Listen to connection events next to the main delegate
+   * Returns a function removing the listener again
+   */
+  public addDelegate(delegate: TcpServiceDelegate): () => void {
+    this.delegates.add(delegate);
+    return () => {
+      this.delegates.delete(delegate);
+    };
+  }
+
+  private notifyDelegates<K extends keyof TcpServiceDelegate>(
+    event: K,
+    ...args: Parameters<NonNullable<TcpServiceDelegate[K]>>
+  ) {
+    this.delegates.forEach((delegate) => {
+      const handler = delegate[event] as ((...a: any[]) => void) | undefined;
+      try {
+        handler?.(...args);
+      } catch (error) {
+        console.error(`Error in TCP delegate ${event}:`, error);
+      }
+    });
   }
 
   public getDeviceId(): string {
@@ -80,6 +266,10 @@ class TcpService {
     return this.role;
   }
 
+  public getConnectionInfo(): TcpConnectionInfo | null {
+    return this.connectionInfo;
+  }
+
   public getConnectedClients(): string[] {
     return Array.from(this.connectedClients.keys());
   }
@@ -94,6 +284,23 @@ class TcpService {
     return this.clientsInfo.get(clientId);
   }
 
+  /**
+   * Relay: unpair a till and close its connection
+   * Its messages are signed with a session key, so forgetting the pairing
+   * secret alone would leave an open connection working.
+   */
+  public async unpairClient(clientId: string): Promise<void> {
+    await PairingService.unpairDevice(clientId);
+    this.disconnectClient(clientId);
+  }
+
+  /**
+   * Client: whether the relay was heard from within the peer timeout
+   */
+  public isRelayResponsive(): boolean {
+    return this.relayResponsive;
+  }
+
   // Start as server (relay)
   public startServer(port: number = 8080): Promise<TcpConnectionInfo> {
     return new Promise((resolve, reject) => {
@@ -120,7 +327,8 @@ class TcpService {
           };
 
           this.startHeartbeat();
-          this.delegate?.onConnectionEstablished?.(info);
+          this.connectionInfo = info;
+          this.notifyDelegates("onConnectionEstablished", info);
 
           console.log(`TCP Server started on ${info.address}:${info.port}`);
           console.log(
@@ -131,7 +339,7 @@ class TcpService {
 
         this.server.on("error", (error: Error) => {
           console.error("Server error:", error);
-          this.delegate?.onError?.(error);
+          this.notifyDelegates("onError", error);
           reject(error);
         });
 
@@ -146,13 +354,227 @@ class TcpService {
   }
 
   // Connect as client
-  public connectToServer(host: string, port: number): Promise<void> {
+  // Resolves once the relay accepted the handshake and both ends proved
+  // they share the paired secret. Rejects with a HandshakeRejectedError
+  // when the relay refuses the till or the two are incompatible, and with
+  // a plain Error when the attempt failed and may be retried.
+  // Pass the relay's pairing code to pair a new till.
+  // Everything after the welcome is encrypted with keys from an exchange
+  // of this till's and the relay's identity and one-off keys.
+  public connectToServer(
+    host: string,
+    port: number,
+    pairingCode?: string
+  ): Promise<void> {
     return new Promise((resolve, reject) => {
-      if (this.role !== "none") {
+      if (this.role !== "none" || this.client) {
         reject(new Error(`Already running as ${this.role}`));
         return;
       }
 
+      let handshakeTimer: ReturnType<typeof setTimeout> | null = null;
+      let settled = false;
+      const tillNonce = createNonce();
+      const identity = IdentityKeyService.getIdentity();
+      const ephemeral = generateKeyPair();
+      let identityKeys: IdentityKeys | null = null;
+      let channel: PeerChannel | null = null;
+      let newPairing: RelayPairing | null = null;
+
+      const info: TcpConnectionInfo = {
+        address: host,
+        port,
+        deviceId: DeviceService.getDeviceId(),
+        userId: DeviceService.getUserId(),
+        venueId: DeviceService.getVenueId(),
+      };
+
+      const fail = (error: Error) => {
+        if (handshakeTimer) {
+          clearTimeout(handshakeTimer);
+        }
+        if (!settled) {
+          settled = true;
+          reject(error);
+        }
+      };
+
+      // The relay refused this till, retrying would be refused again
+      const abort = (reason: string) => {
+        this.abortHandshake(new HandshakeRejectedError(reason), fail);
+      };
+
+      // Anything else only fails this attempt, so reconnecting retries it
+      const giveUp = (reason: string) => {
+        this.abortHandshake(new Error(reason), fail);
+      };
+
+      // Answer the relay's welcome by signing with the paired secret
+      const authenticate = async (welcome: TcpMessage) => {
+        const relay: HandshakeInfo | undefined = welcome.data?.handshake;
+        const reason = checkHandshake(relay, "till");
+        if (reason) {
+          abort(reason);
+          return;
+        }
+
+        const relayId = welcome.deviceId;
+        const relayNonce = welcome.data?.nonce;
+        const relayKey = welcome.data?.identityKey;
+        const relayKeyShare = welcome.data?.keyShare;
+        if (!isPublicKey(relayKey) || !isPublicKey(relayKeyShare)) {
+          giveUp("The relay did not offer a valid encryption key.");
+          return;
+        }
+
+        const keys = await identity;
+        const ciphers = deriveTransportCiphers(
+          "till",
+          {
+            identity: keys,
+            ephemeral,
+            peerIdentity: relayKey,
+            peerEphemeral: relayKeyShare,
+          },
+          tillNonce,
+          relayNonce
+        );
+
+        let secret: string;
+        if (pairingCode) {
+          secret = derivePairingSecret(
+            pairingCode,
+            ciphers.bindingKey,
+            relayId,
+            info.deviceId,
+            tillNonce,
+            relayNonce
+          );
+          newPairing = { relayId, secret, relayPublicKey: relayKey };
+        } else {
+          const pairing = await PairingService.getRelayPairing();
+          if (!pairing || pairing.relayId !== relayId) {
+            giveUp(
+              "This till is not paired with this relay. Enter the pairing code shown on the relay."
+            );
+            return;
+          }
+          if (pairing.relayPublicKey !== relayKey) {
+            const fingerprint = keyFingerprint(relayKey);
+            giveUp(
+              `The relay's key ${fingerprint} is not the one this till paired with. If the relay was replaced, pair this till again with a new code.`
+            );
+            return;
+          }
+          secret = pairing.secret;
+        }
+
+        decoder.setCipher(ciphers.receive);
+
+        info.appVersion = relay?.appVersion;
+        info.relayId = relayId;
+        info.fingerprint = keyFingerprint(relayKey);
+        identityKeys = { till: keys.publicKey, relay: relayKey };
+        channel = {
+          session: new PeerSession(
+            deriveSessionKey(secret, tillNonce, relayNonce)
+          ),
+          cipher: ciphers.send,
+        };
+        this.writeSigned(
+          this.client,
+          channel,
+          this.stampMessage({
+            type: "authenticate",
+            data: { mode: pairingCode ? "pairing" : "paired", identityKeys },
+          })
+        );
+      };
+
+      const establish = async (serverChannel: PeerChannel) => {
+        if (newPairing) {
+          await PairingService.saveRelayPairing(newPairing);
+        }
+        if (handshakeTimer) {
+          clearTimeout(handshakeTimer);
+        }
+
+        this.serverChannel = serverChannel;
+        this.serverLastSeen = Date.now();
+        this.relayResponsive = true;
+        this.role = "client";
+        this.startHeartbeat();
+        this.connectionInfo = info;
+        this.notifyDelegates("onConnectionEstablished", info);
+
+        console.log(`Connected to server at ${host}:${port}`);
+        console.log(
+          `Device: ${info.deviceId}, User: ${info.userId}, Venue: ${info.venueId}`
+        );
+        settled = true;
+        resolve();
+      };
+
+      const handleHandshakeMessage = async (message: TcpMessage) => {
+        if (message.type === "reject") {
+          abort(message.data?.reason ?? "The relay refused the connection.");
+        } else if (message.type === "welcome" && !channel) {
+          await authenticate(message).catch((error) =>
+            giveUp(`Could not authenticate with the relay: ${error.message}`)
+          );
+        } else if (message.type === "authenticated" && channel) {
+          if (channel.session.verify(message)) {
+            giveUp("The relay could not prove it knows this till's pairing.");
+            return;
+          }
+          if (
+            !identityKeys ||
+            !sameIdentityKeys(identityKeys, message.data?.identityKeys)
+          ) {
+            giveUp(
+              "The relay saw different keys than this till. Another device may be intercepting the connection."
+            );
+            return;
+          }
+          await establish(channel).catch((error) =>
+            giveUp(`Could not save the pairing: ${error.message}`)
+          );
+        }
+      };
+
+      const handleMessage = async (message: TcpMessage) => {
+        if (this.role !== "client") {
+          await handleHandshakeMessage(message);
+          return;
+        }
+
+        const rejection =
+          this.serverChannel?.session.verify(message) ?? "unsigned";
+        if (rejection) {
+          console.warn(
+            `Dropped ${rejection} ${message.type} message from the relay`
+          );
+          return;
+        }
+
+        this.markRelaySeen();
+        this.mergeLamportClock(message);
+        if (message.type === "delivery_failed") {
+          this.notifyDelegates("onDeliveryFailed", message.data);
+          return;
+        }
+        this.notifyDelegates("onMessageReceived", message);
+      };
+
+      // Messages are handled one at a time, in the order they arrived
+      let inbound = Promise.resolve();
+      const decoder = new FrameDecoder({
+        onMessage: (message: TcpMessage) => {
+          inbound = inbound.then(() => handleMessage(message));
+        },
+        onError: (error) => this.handleFrameError(error, this.client),
+      });
+
       try {
         const options = {
           port,
@@ -161,97 +583,336 @@ class TcpService {
         };
 
         this.client = TcpSocket.createConnection(options, () => {
-          this.role = "client";
+          // Send join message with full device info, our handshake and
+          // our keys; the connection is only usable once the relay
+          // welcomes us and we have authenticated
+          identity
+            .then((keys) => {
+              this.client?.write(
+                encodeFrame(
+                  this.stampMessage({
+                    type: "join",
+                    data: {
+                      deviceInfo: {
+                        deviceId: info.deviceId,
+                        userId: info.userId,
+                        venueId: info.venueId,
+                      },
+                      groups: DeviceService.getGroups(),
+                      handshake: createHandshake(),
+                      nonce: tillNonce,
+                      identityKey: keys.publicKey,
+                      keyShare: ephemeral.publicKey,
+                    },
+                  })
+                )
+              );
+            })
+            .catch((error) =>
+              giveUp(`Could not load this till's key: ${error.message}`)
+            );
 
-          const info: TcpConnectionInfo = {
-            address: host,
-            port,
-            deviceId: DeviceService.getDeviceId(),
-            userId: DeviceService.getUserId(),
-            venueId: DeviceService.getVenueId(),
-          };
-
-          // Send join message with full device info
-          this.sendMessage({
-            type: "join",
-            data: {
-              deviceInfo: {
-                deviceId: info.deviceId,
-                userId: info.userId,
-                venueId: info.venueId,
-              },
-            },
-          });
-
-          this.startHeartbeat();
-          this.delegate?.onConnectionEstablished?.(info);
-
-          console.log(`Connected to server at ${host}:${port}`);
-          console.log(
-            `Device: ${info.deviceId}, User: ${info.userId}, Venue: ${info.venueId}`
-          );
-          resolve();
+          handshakeTimer = setTimeout(() => {
+            giveUp(
+              "The relay did not answer the handshake. It may run an older app version."
+            );
+          }, HANDSHAKE_TIMEOUT_MS);
         });
 
-        this.client.on("data", (data: Buffer) => {
-          this.handleDataReceived(data, this.client);
+        // Events from a socket that has since been replaced or cleaned up
+        // must not touch the current connection
+        const socket = this.client;
+
+        socket.on("data", (data: Buffer) => {
+          decoder.push(data);
         });
 
-        this.client.on("error", (error: Error) => {
+        socket.on("error", (error: Error) => {
+          if (this.client !== socket) {
+            return;
+          }
           console.error("Client error:", error);
-          this.delegate?.onError?.(error);
-          reject(error);
+          this.notifyDelegates("onError", error);
+          fail(error);
         });
 
-        this.client.on("close", () => {
+        socket.on("close", () => {
+          if (this.client !== socket) {
+            return;
+          }
           console.log("Connection closed");
-          this.cleanup();
-          this.delegate?.onConnectionClosed?.();
+          fail(new Error("Connection closed before the relay answered"));
+          this.cleanup(); // Notifies onConnectionClosed
         });
       } catch (error) {
-        reject(error);
+        fail(error as Error);
       }
     });
   }
 
+  /**
+   * Give up on a handshake: report why and close the connection
+   */
+  private abortHandshake(error: Error, fail: (error: Error) => void) {
+    console.warn("Handshake failed:", error.message);
+    this.notifyDelegates("onError", error);
+    fail(error);
+    this.cleanup();
+  }
+
   private handleClientConnection(socket: any) {
     const clientAddress = `${socket.remoteAddress}:${socket.remotePort}`;
     console.log(`Client connected: ${clientAddress}`);
 
     let clientId = "";
+    let join: TcpMessage | null = null;
+    let transport: TransportKeys | null = null; // Once the till was welcomed
+    let channel: PeerChannel | null = null; // Once it authenticated
+    const relayNonce = createNonce();
 
-    socket.on("data", (data: Buffer) => {
-      try {
-        const message: TcpMessage = JSON.parse(data.toString());
+    const reject = (reason: string) => {
+      this.rejectClient(socket, clientAddress, reason, transport?.send);
+    };
 
-        // Store client ID and info on first message
-        if (message.type === "join") {
-          clientId = message.deviceId;
-          this.connectedClients.set(clientId, socket);
+    // Check the till's signature against its paired secret, or against
+    // the active pairing code when it is pairing
+    const authenticate = async (
+      message: TcpMessage,
+      joined: TcpMessage,
+      welcomed: TransportKeys
+    ) => {
+      if (message.deviceId !== joined.deviceId) {
+        reject("The till changed its device ID during the handshake.");
+        return;
+      }
 
-          // Store client info if provided
-          if (message.data?.deviceInfo) {
-            this.clientsInfo.set(clientId, message.data.deviceInfo);
-          }
+      const tillNonce = joined.data?.nonce;
+      const tillKey: string = joined.data?.identityKey;
+      const pairing = message.data?.mode === "pairing";
+      let secret: string | null;
+      if (pairing) {
+        const code = PairingService.getActivePairingCode();
+        if (!code) {
+          reject(
+            "No pairing code is active on the relay. Create a new code on the relay and enter it on this till."
+          );
+          return;
+        }
+        secret = derivePairingSecret(
+          code.code,
+          welcomed.bindingKey,
+          DeviceService.getDeviceId(),
+          message.deviceId,
+          tillNonce,
+          relayNonce
+        );
+      } else {
+        secret = await PairingService.getDeviceSecret(message.deviceId);
+        if (!secret) {
+          reject(
+            "This till is not paired with the relay. Enter the pairing code shown on the relay."
+          );
+          return;
+        }
 
-          this.delegate?.onClientConnected?.(
-            clientId,
-            message.data?.deviceInfo || {}
+        const device = await PairingService.getPairedDevice(message.deviceId);
+        if (device?.publicKey !== tillKey) {
+          reject(
+            "This till's key changed since it paired. Pair it again with a new code."
           );
-          console.log(
-            `Client ${clientId} joined (User: ${message.userId}, Venue: ${message.venueId})`
+          return;
+        }
+      }
+
+      const candidate = new PeerSession(
+        deriveSessionKey(secret, tillNonce, relayNonce)
+      );
+      if (candidate.verify(message)) {
+        if (pairing) {
+          PairingService.recordFailedPairing();
+        }
+        reject(
+          pairing
+            ? "The pairing code is wrong or has expired."
+            : "The relay no longer accepts this till's pairing. Pair it again with a new code."
+        );
+        return;
+      }
+
+      const identityKeys: IdentityKeys = {
+        till: tillKey,
+        relay: (await IdentityKeyService.getIdentity()).publicKey,
+      };
+      if (!sameIdentityKeys(identityKeys, message.data?.identityKeys)) {
+        reject(
+          "The till saw different keys than the relay. Another device may be intercepting the connection."
+        );
+        return;
+      }
+
+      if (pairing) {
+        PairingService.consumePairingCode();
+        await PairingService.savePairedDevice(
+          message.deviceId,
+          secret,
+          tillKey
+        );
+      }
+
+      channel = { session: candidate, cipher: welcomed.send };
+      clientId = joined.deviceId;
+      this.connectedClients.set(clientId, socket);
+      this.channels.set(clientId, channel);
+      this.lastSeen.set(clientId, Date.now());
+
+      // Store client info if provided
+      if (joined.data?.deviceInfo) {
+        this.clientsInfo.set(clientId, {
+          ...joined.data.deviceInfo,
+          appVersion: joined.data?.handshake?.appVersion,
+          fingerprint: keyFingerprint(tillKey),
+          groups: Array.isArray(joined.data?.groups)
+            ? joined.data.groups.filter((g: unknown) => typeof g === "string")
+            : [],
+        });
+      }
+
+      this.writeSigned(
+        socket,
+        channel,
+        this.stampMessage({ type: "authenticated", data: { identityKeys } })
+      );
+
+      this.notifyDelegates(
+        "onClientConnected",
+        clientId,
+        this.clientsInfo.get(clientId) || {}
+      );
+      console.log(
+        `Client ${clientId} joined (User: ${joined.userId}, Venue: ${joined.venueId})`
+      );
+
+      // Tell the other clients, as for any relayed message
+      this.relayToOtherClients(joined, clientId);
+      this.notifyDelegates("onMessageReceived", joined);
+    };
+
+    const handleHandshakeMessage = async (message: TcpMessage) => {
+      if (message.type === "join" && !join) {
+        const reason = checkHandshake(message.data?.handshake, "relay");
+        if (reason) {
+          reject(reason);
+          return;
+        }
+
+        const tillKey = message.data?.identityKey;
+        const tillKeyShare = message.data?.keyShare;
+        if (!isPublicKey(tillKey) || !isPublicKey(tillKeyShare)) {
+          reject("The till did not offer a valid encryption key.");
+          return;
+        }
+
+        const identity = await IdentityKeyService.getIdentity();
+        const ephemeral = generateKeyPair();
+        const ciphers = deriveTransportCiphers(
+          "relay",
+          {
+            identity,
+            ephemeral,
+            peerIdentity: tillKey,
+            peerEphemeral: tillKeyShare,
+          },
+          message.data?.nonce,
+          relayNonce
+        );
+
+        // The welcome is the last plaintext frame in either direction
+        join = message;
+        socket.write(
+          encodeFrame(
+            this.stampMessage({
+              type: "welcome",
+              data: {
+                handshake: createHandshake(),
+                nonce: relayNonce,
+                identityKey: identity.publicKey,
+                keyShare: ephemeral.publicKey,
+              },
+            })
+          )
+        );
+        decoder.setCipher(ciphers.receive);
+        transport = ciphers;
+      } else if (message.type === "authenticate" && join && transport) {
+        await authenticate(message, join, transport);
+      } else {
+        console.warn(
+          `Ignoring ${message.type} from ${clientAddress} before it authenticated`
+        );
+      }
+    };
+
+    const handleMessage = async (message: TcpMessage) => {
+      try {
+        if (!channel) {
+          await handleHandshakeMessage(message);
+          return;
+        }
+
+        // Only signed, fresh messages from the authenticated till count
+        const rejection = channel.session.verify(message);
+        if (rejection) {
+          console.warn(
+            `Dropped ${rejection} ${message.type} message from ${clientAddress}`
+          );
+          return;
+        }
+        const dropped = checkTillMessage(message, clientId, join?.venueId);
+        if (dropped) {
+          console.warn(
+            `Dropped ${message.type} message from ${clientAddress} ${dropped}`
           );
+          return;
         }
 
-        // Relay message to all other clients (except sender)
-        if (this.role === "server" && message.type !== "heartbeat") {
-          this.relayToOtherClients(message, clientId);
+        this.lastSeen.set(clientId, Date.now());
+        this.mergeLamportClock(message);
+
+        if (UNRELAYED_MESSAGE_TYPES.includes(message.type)) {
+          this.notifyDelegates("onMessageReceived", message);
+          return;
         }
 
-        this.delegate?.onMessageReceived?.(message);
+        // Relay message to the other clients it is addressed to, and
+        // tell the sender when an addressed message reached nobody
+        const delivered = this.relayToOtherClients(message, clientId);
+        const forRelay = this.isAddressedToRelay(message);
+        if (message.to && delivered === 0 && !forRelay) {
+          const failure = this.deliveryFailure(message, message.to);
+          this.sendToClient(clientId, {
+            type: "delivery_failed",
+            data: failure,
+          });
+        }
+
+        if (forRelay) {
+          this.notifyDelegates("onMessageReceived", message);
+        }
       } catch (error) {
-        console.error("Error parsing message:", error);
+        console.error(`Error handling message from ${clientAddress}:`, error);
       }
+    };
+
+    // Messages are handled one at a time, in the order they arrived
+    let inbound = Promise.resolve();
+    const decoder = new FrameDecoder({
+      onMessage: (message: TcpMessage) => {
+        inbound = inbound.then(() => handleMessage(message));
+      },
+      onError: (error) => this.handleFrameError(error, socket, clientAddress),
+    });
+    socket.on("data", (data: Buffer) => {
+      decoder.push(data);
     });
 
     socket.on("error", (error: Error) => {
@@ -261,74 +922,278 @@ class TcpService {
     socket.on("close", () => {
       console.log(`Client disconnected: ${clientAddress}`);
       if (clientId) {
-        this.connectedClients.delete(clientId);
-        this.clientsInfo.delete(clientId);
-        this.delegate?.onClientDisconnected?.(clientId);
-
-        // Notify other clients
-        this.relayToOtherClients(
-          {
-            type: "leave",
-            deviceId: clientId,
-            userId: "",
-            venueId: "",
-            timestamp: Date.now(),
-          },
-          clientId
-        );
+        this.dropClient(clientId, socket);
       }
     });
   }
 
-  private handleDataReceived(data: Buffer, socket: any) {
+  /**
+   * Forget an authenticated client and tell the other clients it left
+   * Does nothing if the client was dropped already, or has reconnected
+   * on a newer socket.
+   */
+  private dropClient(clientId: string, socket: any) {
+    if (this.connectedClients.get(clientId) !== socket) {
+      return;
+    }
+
+    this.connectedClients.delete(clientId);
+    this.clientsInfo.delete(clientId);
+    this.channels.delete(clientId);
+    this.lastSeen.delete(clientId);
+    this.notifyDelegates("onClientDisconnected", clientId);
+
+    // Notify other clients
+    this.relayToOtherClients(
+      {
+        type: "leave",
+        deviceId: clientId,
+        userId: "",
+        venueId: "",
+        timestamp: Date.now(),
+      },
+      clientId
+    );
+  }
+
+  /**
+   * Close an authenticated client's connection and forget it
+   */
+  private disconnectClient(clientId: string) {
+    const socket = this.connectedClients.get(clientId);
+    if (!socket) {
+      return;
+    }
+
+    this.dropClient(clientId, socket);
     try {
-      const message: TcpMessage = JSON.parse(data.toString());
-      this.delegate?.onMessageReceived?.(message);
+      socket.destroy();
     } catch (error) {
-      console.error("Error parsing message:", error);
+      console.error(`Error closing client ${clientId}:`, error);
+    }
+  }
+
+  /**
+   * Evict clients that went silent, and notice when the relay does
+   * A till that lost power never closes its socket, so silence is the only
+   * sign it is gone. A silent relay is first reported as unresponsive; if
+   * it stays silent the connection is closed so the till can reconnect.
+   */
+  private checkLiveness() {
+    const now = Date.now();
+    const { peerTimeoutMs } = this.liveness;
+
+    if (this.role === "server") {
+      this.lastSeen.forEach((seenAt, clientId) => {
+        if (now - seenAt <= peerTimeoutMs) {
+          return;
+        }
+
+        const seconds = Math.round((now - seenAt) / 1000);
+        console.warn(`Evicting client ${clientId}: silent for ${seconds}s`);
+        this.disconnectClient(clientId);
+      });
+    } else if (this.role === "client") {
+      const silence = now - this.serverLastSeen;
+      if (silence > 2 * peerTimeoutMs) {
+        const seconds = Math.round(silence / 1000);
+        console.warn(`Closing connection: relay silent for ${seconds}s`);
+        this.cleanup();
+      } else if (silence > peerTimeoutMs && this.relayResponsive) {
+        this.relayResponsive = false;
+        this.notifyDelegates("onRelayResponsivenessChanged", false);
+      }
     }
   }
 
-  private relayToOtherClients(message: TcpMessage, excludeClientId: string) {
-    const messageStr = JSON.stringify(message);
+  private markRelaySeen() {
+    this.serverLastSeen = Date.now();
+    if (!this.relayResponsive) {
+      this.relayResponsive = true;
+      this.notifyDelegates("onRelayResponsivenessChanged", true);
+    }
+  }
 
+  /**
+   * Refuse an incompatible client, telling it why, and close its connection
+   * Once the client was welcomed, the reject is encrypted like any frame.
+   */
+  private rejectClient(
+    socket: any,
+    clientAddress: string,
+    reason: string,
+    cipher?: FrameCipher | null
+  ) {
+    console.warn(`Rejected client ${clientAddress}: ${reason}`);
+
+    try {
+      socket.write(
+        encodeFrame(
+          this.stampMessage({ type: "reject", data: { reason } }),
+          cipher
+        )
+      );
+      socket.end();
+    } catch (error) {
+      console.error(`Error rejecting client ${clientAddress}:`, error);
+      socket.destroy();
+    }
+  }
+
+  /**
+   * Report a frame that could not be decoded
+   * After a fatal framing error the stream cannot be read any further,
+   * so the connection is closed.
+   */
+  private handleFrameError(error: FrameError, socket: any, peer?: string) {
+    console.error(`Framing error${peer ? ` (${peer})` : ""}:`, error.message);
+    this.notifyDelegates("onError", error);
+
+    if (error.fatal) {
+      try {
+        socket.destroy();
+      } catch (destroyError) {
+        console.error("Error closing connection:", destroyError);
+      }
+    }
+  }
+
+  private mergeLamportClock(message: TcpMessage) {
+    if (typeof message.lamportClock === "number") {
+      LamportClockService.receive(message.lamportClock).catch((error) =>
+        console.error("Error merging lamport clock:", error)
+      );
+    }
+  }
+
+  // Re-signed for each client, since every connection has its own key
+  // Only clients the message is addressed to get it; returns how many did
+  private relayToOtherClients(
+    message: TcpMessage,
+    excludeClientId?: string
+  ): number {
+    let delivered = 0;
     this.connectedClients.forEach((socket, clientId) => {
-      if (clientId !== excludeClientId) {
+      if (
+        clientId !== excludeClientId &&
+        this.isAddressedTo(message, clientId)
+      ) {
         try {
-          socket.write(messageStr);
+          this.writeSigned(socket, this.channels.get(clientId), message);
+          delivered++;
         } catch (error) {
           console.error(`Error sending to client ${clientId}:`, error);
         }
       }
     });
+    return delivered;
   }
 
-  public sendMessage(
-    message: Omit<TcpMessage, "deviceId" | "userId" | "venueId" | "timestamp">
-  ): void {
-    const fullMessage: TcpMessage = {
+  /**
+   * Relay: whether a connected client is a target of a message
+   */
+  private isAddressedTo(message: TcpMessage, clientId: string): boolean {
+    const { to } = message;
+    if (!to) {
+      return true;
+    }
+    if ("deviceId" in to) {
+      return to.deviceId === clientId;
+    }
+    if ("role" in to) {
+      return to.role === "till";
+    }
+    return this.clientsInfo.get(clientId)?.groups?.includes(to.group) ?? false;
+  }
+
+  /**
+   * Relay: whether the relay itself is a target of a message
+   */
+  private isAddressedToRelay(message: TcpMessage): boolean {
+    const { to } = message;
+    if (!to) {
+      return true;
+    }
+    if ("deviceId" in to) {
+      return to.deviceId === DeviceService.getDeviceId();
+    }
+    if ("role" in to) {
+      return to.role === "relay";
+    }
+    return DeviceService.getGroups().includes(to.group);
+  }
+
+  private deliveryFailure(
+    message: TcpMessage,
+    to: MessageTarget
+  ): DeliveryFailedData {
+    const reason = `No connected device matches ${describeTarget(to)}`;
+    console.warn(`Could not deliver ${message.type}: ${reason}`);
+    return { messageId: message.id, type: message.type, to, reason };
+  }
+
+  /**
+   * Sign and encrypt a message for one authenticated connection and write it
+   */
+  private writeSigned(
+    socket: any,
+    channel: PeerChannel | null | undefined,
+    message: TcpMessage
+  ) {
+    if (!channel) {
+      throw new Error("Connection is not authenticated");
+    }
+    socket.write(encodeFrame(channel.session.sign(message), channel.cipher));
+  }
+
+  private stampMessage(message: OutgoingTcpMessage): TcpMessage {
+    return {
       ...message,
+      id: randomId(),
       deviceId: DeviceService.getDeviceId(),
       userId: DeviceService.getUserId(),
       venueId: DeviceService.getVenueId(),
       timestamp: Date.now(),
+      lamportClock: LamportClockService.getCurrent(),
     };
+  }
 
-    const messageStr = JSON.stringify(fullMessage);
+  // Send to a single connected client (server only)
+  public sendToClient(clientId: string, message: OutgoingTcpMessage): boolean {
+    const socket = this.connectedClients.get(clientId);
+    if (this.role !== "server" || !socket) {
+      return false;
+    }
+
+    try {
+      this.writeSigned(
+        socket,
+        this.channels.get(clientId),
+        this.stampMessage(message)
+      );
+      return true;
+    } catch (error) {
+      console.error(`Error sending to client ${clientId}:`, error);
+      return false;
+    }
+  }
+
+  public sendMessage(message: OutgoingTcpMessage): void {
+    const stamped = this.stampMessage(message);
 
     if (this.role === "server") {
-      // Send to all connected clients
-      this.connectedClients.forEach((socket, clientId) => {
-        try {
-          socket.write(messageStr);
-        } catch (error) {
-          console.error(`Error sending to client ${clientId}:`, error);
-        }
-      });
+      // Send to the connected clients it is addressed to
+      const delivered = this.relayToOtherClients(stamped);
+      if (stamped.to && delivered === 0) {
+        this.notifyDelegates(
+          "onDeliveryFailed",
+          this.deliveryFailure(stamped, stamped.to)
+        );
+      }
     } else if (this.role === "client" && this.client) {
       // Send to server
       try {
-        this.client.write(messageStr);
+        this.writeSigned(this.client, this.serverChannel, stamped);
       } catch (error) {
         console.error("Error sending to server:", error);
       }
@@ -341,7 +1206,11 @@ class TcpService {
         type: "heartbeat",
         data: { connectedClients: this.getConnectedClients() },
       });
-    }, 30000); // Every 30 seconds
+    }, this.liveness.heartbeatIntervalMs);
+    this.livenessInterval = setInterval(
+      () => this.checkLiveness(),
+      LIVENESS_CHECK_INTERVAL_MS
+    );
   }
 
   private stopHeartbeat() {
@@ -349,6 +1218,10 @@ class TcpService {
       clearInterval(this.heartbeatInterval);
       this.heartbeatInterval = null;
     }
+    if (this.livenessInterval) {
+      clearInterval(this.livenessInterval);
+      this.livenessInterval = null;
+    }
   }
 
   public stop() {
@@ -392,9 +1265,14 @@ class TcpService {
       }
     });
     this.connectedClients.clear();
+    this.channels.clear();
+    this.serverChannel = null;
+    this.lastSeen.clear();
+    this.relayResponsive = true;
 
     this.role = "none";
-    this.delegate?.onConnectionClosed?.();
+    this.connectionInfo = null;
+    this.notifyDelegates("onConnectionClosed");
   }
 
   private getLocalIpAddress(address: any): string {
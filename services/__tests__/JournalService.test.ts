@@ -0,0 +1,103 @@
+import database, { eventsCollection } from "@/db";
+import { EventEnvelope } from "@/models/EventPayload";
+import { DeviceService } from "@/services/DeviceService";
+import { JournalService } from "@/services/JournalService";
+
+const latte = {
+  id: "line-1",
+  menuItemId: "item-001",
+  name: "Latte",
+  quantity: 1,
+  unitPriceCents: 450,
+  subtotalCents: 450,
+};
+
+const envelope = (
+  id: string,
+  overrides: Partial<EventEnvelope> = {}
+): EventEnvelope => ({
+  id,
+  sequence: 1,
+  entity: "order",
+  entityId: "order-1",
+  type: "add_item",
+  payloadJson: JSON.stringify({ orderId: "order-1", items: [latte] }),
+  deviceId: "till-a",
+  relayId: "relay-1",
+  userId: "user-1",
+  venueId: "venue-1",
+  lamportClock: 1,
+  createdAt: 1000,
+  schemaVersion: 2,
+  ...overrides,
+});
+
+describe("JournalService.acceptEvent", () => {
+  beforeEach(() => {
+    jest.spyOn(DeviceService, "getDeviceId").mockReturnValue("relay-1");
+    jest.spyOn(DeviceService, "getVenueId").mockReturnValue("venue-1");
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await database.write(() => database.unsafeResetDatabase());
+  });
+
+  it("appends a valid event to today's journal", async () => {
+    const result = await JournalService.acceptEvent(envelope("event-1"));
+
+    expect(result).toMatchObject({
+      eventId: "event-1",
+      status: "acked",
+      duplicate: false,
+    });
+    expect(result.event?.journalSequence).toBe(1);
+    expect(result.event?.globalId).toBe("till-a:1");
+  });
+
+  it("acknowledges a re-sent event again without storing it twice", async () => {
+    const listener = jest.fn();
+    const removeListener = JournalService.addAppendListener(listener);
+
+    await JournalService.acceptEvent(envelope("event-1"));
+    const again = await JournalService.acceptEvent(envelope("event-1"));
+    removeListener();
+
+    expect(again).toMatchObject({ status: "acked", duplicate: true });
+    expect(again.event).toBeUndefined();
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(await eventsCollection.query().fetchCount()).toBe(1);
+  });
+
+  it("rejects a different event reusing a stored global ID", async () => {
+    await JournalService.acceptEvent(envelope("event-1"));
+    const reused = await JournalService.acceptEvent(envelope("event-2"));
+
+    expect(reused).toMatchObject({
+      eventId: "event-2",
+      status: "rejected",
+      duplicate: false,
+    });
+    expect(reused.errorMessage).toMatch(/till-a:1/);
+    expect(await eventsCollection.query().fetchCount()).toBe(1);
+  });
+
+  it("rejects malformed events and events breaking a business rule", async () => {
+    const malformed = await JournalService.acceptEvent(
+      envelope("event-1", { payloadJson: '{"items":[]}' })
+    );
+    const unopened = await JournalService.acceptEvent(
+      envelope("event-2", {
+        type: "close_check",
+        payloadJson: JSON.stringify({ orderId: "order-1", closedAt: 5000 }),
+      })
+    );
+
+    expect(malformed).toMatchObject({
+      status: "rejected",
+      errorMessage: "orderId is required",
+    });
+    expect(unopened.status).toBe("rejected");
+    expect(await eventsCollection.query().fetchCount()).toBe(0);
+  });
+});
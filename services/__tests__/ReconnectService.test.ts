@@ -0,0 +1,91 @@
+import {
+  RECONNECT_BASE_DELAY_MS,
+  RECONNECT_MAX_DELAY_MS,
+} from "@/constants/protocol";
+import { ReconnectService, reconnectDelay } from "@/services/ReconnectService";
+import TcpService from "@/services/TcpService";
+import { HandshakeRejectedError } from "@/utils/ProtocolHandshake";
+
+describe("reconnectDelay", () => {
+  const withRandom = (value: number, attempt: number) => {
+    jest.spyOn(Math, "random").mockReturnValue(value);
+    return reconnectDelay(attempt);
+  };
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("doubles the delay with every attempt", () => {
+    expect(withRandom(1, 1)).toBe(RECONNECT_BASE_DELAY_MS);
+    expect(withRandom(1, 2)).toBe(RECONNECT_BASE_DELAY_MS * 2);
+    expect(withRandom(1, 4)).toBe(RECONNECT_BASE_DELAY_MS * 8);
+  });
+
+  it("jitters between half and all of the delay", () => {
+    expect(withRandom(0, 3)).toBe(RECONNECT_BASE_DELAY_MS * 2);
+    expect(withRandom(0.5, 3)).toBe(RECONNECT_BASE_DELAY_MS * 3);
+  });
+
+  it("never waits longer than the maximum delay", () => {
+    expect(withRandom(1, 30)).toBe(RECONNECT_MAX_DELAY_MS);
+    expect(withRandom(0, 30)).toBe(RECONNECT_MAX_DELAY_MS / 2);
+  });
+});
+
+describe("ReconnectService", () => {
+  const relay = { host: "10.0.0.2", port: 8080 };
+
+  function reconnect(...failures: Error[]) {
+    const connectToServer = jest.fn(async () => {
+      const failure = failures.shift();
+      if (failure) {
+        throw failure;
+      }
+    });
+    const tcpService = { connectToServer } as unknown as TcpService;
+    return { service: new ReconnectService(tcpService), connectToServer };
+  }
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+    jest.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it("keeps retrying after a timeout or a local error", async () => {
+    const { service, connectToServer } = reconnect(
+      new Error("The relay did not answer the handshake."),
+      new Error("Could not load this till's key: disk full")
+    );
+
+    service.resume(relay);
+    await jest.runAllTimersAsync();
+
+    expect(connectToServer).toHaveBeenCalledTimes(3);
+    expect(service.getState()).toEqual({
+      reconnecting: false,
+      attempt: 0,
+      nextRetryAt: null,
+    });
+  });
+
+  it("stops once the relay refuses the till", async () => {
+    const { service, connectToServer } = reconnect(
+      new Error("Connection closed before the relay answered"),
+      new HandshakeRejectedError("The relay speaks protocol 7")
+    );
+
+    service.resume(relay);
+    await jest.runAllTimersAsync();
+
+    expect(connectToServer).toHaveBeenCalledTimes(2);
+    expect(service.getState().reconnecting).toBe(false);
+    expect(jest.getTimerCount()).toBe(0);
+  });
+});
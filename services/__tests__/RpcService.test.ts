@@ -0,0 +1,176 @@
+import { RpcError, RpcService } from "@/services/RpcService";
+import TcpService, {
+  TcpMessage,
+  TcpServiceDelegate,
+} from "@/services/TcpService";
+
+/**
+ * Stand-in for a TcpService connected as a till or running as the relay
+ */
+function fakeTcp(role: "client" | "server") {
+  const delegates = new Set<TcpServiceDelegate>();
+  const tcpService = {
+    addDelegate: (delegate: TcpServiceDelegate) => {
+      delegates.add(delegate);
+      return () => delegates.delete(delegate);
+    },
+    getRole: () => role,
+    sendMessage: jest.fn(),
+    sendToClient: jest.fn(),
+  };
+
+  const receive = (type: TcpMessage["type"], data: unknown) =>
+    delegates.forEach((d) =>
+      d.onMessageReceived?.({
+        type,
+        data,
+        deviceId: role === "client" ? "relay-1" : "till-a",
+        userId: "user-1",
+        venueId: "venue-1",
+        timestamp: Date.now(),
+      })
+    );
+  const close = () => delegates.forEach((d) => d.onConnectionClosed?.());
+
+  const rpc = new RpcService(tcpService as unknown as TcpService);
+  rpc.start();
+  return { rpc, tcpService, receive, close };
+}
+
+/**
+ * The ID of the nth request the till sent
+ */
+const requestId = (sendMessage: jest.Mock, n = 0): string =>
+  sendMessage.mock.calls[n][0].data.id;
+
+describe("RpcService", () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it("resolves a call with the relay's result", async () => {
+    const { rpc, tcpService, receive } = fakeTcp("client");
+
+    const call = rpc.call("catch_up", { cursors: {} });
+    receive("rpc_response", {
+      id: requestId(tcpService.sendMessage),
+      result: { events: [], hasMore: false },
+    });
+
+    await expect(call).resolves.toEqual({ events: [], hasMore: false });
+  });
+
+  it("matches responses to calls by ID", async () => {
+    const { rpc, tcpService, receive } = fakeTcp("client");
+
+    const first = rpc.call("catch_up", { cursors: {} });
+    const second = rpc.call("push_events", { events: [] });
+    receive("rpc_response", {
+      id: requestId(tcpService.sendMessage, 1),
+      result: [],
+    });
+    receive("rpc_response", {
+      id: requestId(tcpService.sendMessage, 0),
+      result: { events: [], hasMore: false },
+    });
+
+    await expect(second).resolves.toEqual([]);
+    await expect(first).resolves.toEqual({ events: [], hasMore: false });
+  });
+
+  it("times out without a response and ignores a late one", async () => {
+    const { rpc, tcpService, receive } = fakeTcp("client");
+
+    const call = rpc.call("push_events", { events: [] }, 1000);
+    const failed = expect(call).rejects.toMatchObject({ code: "timeout" });
+    jest.advanceTimersByTime(1000);
+    await failed;
+
+    // A second call is not settled by the first call's late response
+    const next = rpc.call("push_events", { events: [] }, 1000);
+    receive("rpc_response", {
+      id: requestId(tcpService.sendMessage),
+      result: ["late"],
+    });
+    receive("rpc_response", {
+      id: requestId(tcpService.sendMessage, 1),
+      result: [],
+    });
+
+    await expect(next).resolves.toEqual([]);
+  });
+
+  it("fails pending calls when the connection closes", async () => {
+    const { rpc, close } = fakeTcp("client");
+
+    const call = rpc.call("push_events", { events: [] });
+    close();
+
+    await expect(call).rejects.toMatchObject({ code: "connection_closed" });
+    expect(jest.getTimerCount()).toBe(0);
+  });
+
+  it("rejects with the relay's error", async () => {
+    const { rpc, tcpService, receive } = fakeTcp("client");
+
+    const call = rpc.call("push_events", { events: [] });
+    receive("rpc_response", {
+      id: requestId(tcpService.sendMessage),
+      error: { code: "handler_failed", message: "Database locked" },
+    });
+
+    await expect(call).rejects.toEqual(
+      new RpcError("Database locked", "handler_failed")
+    );
+  });
+
+  it("refuses calls when not connected to a relay", async () => {
+    const { rpc } = fakeTcp("server");
+
+    await expect(rpc.call("catch_up", { cursors: {} })).rejects.toMatchObject({
+      code: "not_connected",
+    });
+  });
+
+  it("answers the calling till only, with its handler's result", async () => {
+    const { rpc, tcpService, receive } = fakeTcp("server");
+    const handler = jest.fn(async () => []);
+    rpc.register("push_events", handler);
+
+    receive("rpc_request", {
+      id: "call-1",
+      method: "push_events",
+      params: { events: [] },
+    });
+    await Promise.resolve();
+
+    expect(handler).toHaveBeenCalledWith(
+      { events: [] },
+      { deviceId: "till-a", userId: "user-1", venueId: "venue-1" }
+    );
+    expect(tcpService.sendToClient).toHaveBeenCalledWith("till-a", {
+      type: "rpc_response",
+      data: { id: "call-1", result: [] },
+    });
+    expect(tcpService.sendMessage).not.toHaveBeenCalled();
+  });
+
+  it("reports an unknown method", () => {
+    const { tcpService, receive } = fakeTcp("server");
+
+    receive("rpc_request", { id: "call-1", method: "refund_all" });
+
+    expect(tcpService.sendToClient).toHaveBeenCalledWith("till-a", {
+      type: "rpc_response",
+      data: {
+        id: "call-1",
+        error: expect.objectContaining({ code: "unknown_method" }),
+      },
+    });
+  });
+});
@@ -0,0 +1,236 @@
+import database, { eventsCollection } from "@/db";
+import { EventEnvelope } from "@/models/EventPayload";
+import { DeviceService } from "@/services/DeviceService";
+import { JournalCursorService } from "@/services/JournalCursorService";
+import { JournalService } from "@/services/JournalService";
+import { RpcService } from "@/services/RpcService";
+import { SyncService } from "@/services/SyncService";
+import TcpService, {
+  TcpMessage,
+  TcpServiceDelegate,
+} from "@/services/TcpService";
+
+/**
+ * Stand-in for the TcpService of a till connected to relay-1, or of the
+ * relay itself, in venue-1
+ */
+function fakeDevice(role: "client" | "server" = "client") {
+  const delegates = new Set<TcpServiceDelegate>();
+  const tcpService = {
+    addDelegate: (delegate: TcpServiceDelegate) => {
+      delegates.add(delegate);
+      return () => delegates.delete(delegate);
+    },
+    getRole: () => role,
+    getVenueId: () => "venue-1",
+    getConnectionInfo: () => ({ relayId: "relay-1" }),
+    sendMessage: jest.fn(),
+  } as unknown as TcpService;
+  const rpcService = {
+    register: () => () => {},
+    call: jest.fn(() => new Promise(() => {})),
+  } as unknown as RpcService;
+
+  const receive = (message: TcpMessage) =>
+    delegates.forEach((d) => d.onMessageReceived?.(message));
+  return { tcpService, rpcService, receive };
+}
+
+const envelope = (
+  id: string,
+  overrides: Partial<EventEnvelope> = {}
+): EventEnvelope => ({
+  id,
+  sequence: 1,
+  entity: "order",
+  entityId: "order-1",
+  type: "add_item",
+  payloadJson: JSON.stringify({
+    orderId: "order-1",
+    items: [
+      {
+        id: "line-1",
+        menuItemId: "item-001",
+        name: "Latte",
+        quantity: 1,
+        unitPriceCents: 450,
+        subtotalCents: 450,
+      },
+    ],
+  }),
+  deviceId: "till-b",
+  relayId: "relay-1",
+  userId: "user-1",
+  venueId: "venue-1",
+  lamportClock: 1,
+  createdAt: 1000,
+  schemaVersion: 2,
+  ...overrides,
+});
+
+const journalEvent = (from: string, id: string): TcpMessage => ({
+  type: "journal_event",
+  deviceId: from,
+  userId: "user-1",
+  venueId: "venue-1",
+  timestamp: Date.now(),
+  data: { journalId: "journal-1", journalSequence: 1, event: envelope(id) },
+});
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 50));
+
+describe("SyncService", () => {
+  let sync: SyncService;
+
+  afterEach(async () => {
+    sync?.stop();
+    await database.write(() => database.unsafeResetDatabase());
+    await JournalCursorService.reset();
+  });
+
+  describe("journal events", () => {
+    it("applies journal events sent by the relay", async () => {
+      const { tcpService, rpcService, receive } = fakeDevice();
+      sync = new SyncService(tcpService, rpcService);
+      sync.start();
+
+      receive(journalEvent("relay-1", "event-1"));
+      await flush();
+
+      const stored = await eventsCollection.find("event-1");
+      expect(stored.status).toBe("acked");
+    });
+
+    it("ignores journal events from any other device", async () => {
+      const { tcpService, rpcService, receive } = fakeDevice();
+      sync = new SyncService(tcpService, rpcService);
+      sync.start();
+
+      receive(journalEvent("till-b", "event-2"));
+      await flush();
+
+      expect(await eventsCollection.query().fetchCount()).toBe(0);
+    });
+  });
+
+  describe("catch-up", () => {
+    it("asks for the next page once a page is applied", async () => {
+      const { tcpService, rpcService } = fakeDevice();
+      const call = rpcService.call as jest.Mock;
+      call
+        .mockResolvedValueOnce({
+          events: [journalEvent("relay-1", "event-3").data],
+          hasMore: true,
+        })
+        .mockResolvedValueOnce({ events: [], hasMore: false });
+      sync = new SyncService(tcpService, rpcService);
+
+      await (sync as any).catchUp();
+
+      expect(call).toHaveBeenCalledTimes(2);
+      expect(call.mock.calls[1][1].cursors).toEqual({ "journal-1": 1 });
+    });
+
+    it("stops when a page does not move the cursors", async () => {
+      const { tcpService, rpcService } = fakeDevice();
+      const call = rpcService.call as jest.Mock;
+      call.mockResolvedValue({
+        events: [{ journalId: "journal-1", journalSequence: 1 }], // No event
+        hasMore: true,
+      });
+      sync = new SyncService(tcpService, rpcService);
+
+      await expect((sync as any).catchUp()).rejects.toThrow(
+        /did not move the journal cursors/
+      );
+      expect(call).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("pushed batches", () => {
+    beforeEach(() => {
+      jest.spyOn(DeviceService, "getDeviceId").mockReturnValue("relay-1");
+      jest.spyOn(DeviceService, "getVenueId").mockReturnValue("venue-1");
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it("rejects events the till did not issue or for another venue", async () => {
+      const { tcpService, rpcService } = fakeDevice("server");
+      sync = new SyncService(tcpService, rpcService);
+      // The till claims venue-2, but only the relay's venue counts
+      const context = {
+        deviceId: "till-b",
+        userId: "user-1",
+        venueId: "venue-2",
+      };
+
+      const results = await (sync as any).acceptBatch(
+        {
+          events: [
+            envelope("event-1"),
+            envelope("event-2", { deviceId: "till-c", sequence: 2 }),
+            envelope("event-3", { venueId: "venue-2", sequence: 3 }),
+          ],
+        },
+        context
+      );
+
+      expect(results).toEqual([
+        { eventId: "event-1", status: "acked" },
+        expect.objectContaining({
+          eventId: "event-2",
+          status: "rejected",
+          errorMessage: expect.stringMatching(/issued by device till-c/),
+        }),
+        expect.objectContaining({
+          eventId: "event-3",
+          status: "rejected",
+          errorMessage: expect.stringMatching(/relay serves venue venue-1/),
+        }),
+      ]);
+      expect(await eventsCollection.query().fetchCount()).toBe(1);
+    });
+  });
+
+  describe("catch-up answers", () => {
+    beforeEach(() => {
+      jest.spyOn(DeviceService, "getDeviceId").mockReturnValue("relay-1");
+      jest.spyOn(DeviceService, "getVenueId").mockReturnValue("venue-1");
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it("pages through the journal after a till's cursors", async () => {
+      const { tcpService, rpcService } = fakeDevice("server");
+      sync = new SyncService(tcpService, rpcService);
+      for (const sequence of [1, 2, 3]) {
+        await JournalService.acceptEvent(
+          envelope(`event-${sequence}`, { sequence })
+        );
+      }
+      const [journal] = await JournalService.getJournalsSince("2000-01-01");
+      const answer = (after: number) =>
+        (sync as any).answerCatchUp({
+          cursors: after ? { [journal.id]: after } : {},
+          limit: 2,
+        });
+      const ids = (page: any) => page.events.map((e: any) => e.event.id);
+
+      const first = await answer(0);
+      expect(ids(first)).toEqual(["event-1", "event-2"]);
+      expect(first.hasMore).toBe(true);
+
+      const second = await answer(2);
+      expect(ids(second)).toEqual(["event-3"]);
+      expect(second.events[0].journalSequence).toBe(3);
+      expect(second.hasMore).toBe(false);
+
+      expect(await answer(3)).toEqual({ events: [], hasMore: false });
+    });
+  });
+});
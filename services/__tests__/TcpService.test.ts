@@ -0,0 +1,133 @@
+import { HANDSHAKE_TIMEOUT_MS } from "@/constants/protocol";
+import { DeviceService } from "@/services/DeviceService";
+import { IdentityKeyService } from "@/services/IdentityKeyService";
+import { LamportClockService } from "@/services/LamportClockService";
+import { PairingService } from "@/services/PairingService";
+import TcpService, {
+  checkTillMessage,
+  TcpMessage,
+} from "@/services/TcpService";
+import { HandshakeRejectedError } from "@/utils/ProtocolHandshake";
+import { generateKeyPair } from "@/utils/SecureChannel";
+import TcpSocket from "react-native-tcp-socket";
+
+const fromTill = (overrides: Partial<TcpMessage> = {}): TcpMessage => ({
+  type: "update",
+  deviceId: "till-a",
+  userId: "user-1",
+  venueId: "venue-1",
+  timestamp: 1000,
+  ...overrides,
+});
+
+describe("checkTillMessage", () => {
+  it("handles messages the till sends as itself", () => {
+    expect(checkTillMessage(fromTill(), "till-a", "venue-1")).toBeNull();
+    expect(
+      checkTillMessage(fromTill({ to: { role: "till" } }), "till-a", "venue-1")
+    ).toBeNull();
+  });
+
+  it("drops messages claiming another device or venue", () => {
+    expect(
+      checkTillMessage(fromTill({ deviceId: "till-b" }), "till-a", "venue-1")
+    ).toMatch(/claiming to be till-b/);
+    expect(
+      checkTillMessage(fromTill({ venueId: "venue-2" }), "till-a", "venue-1")
+    ).toMatch(/venue venue-2/);
+  });
+
+  it("drops messages with an invalid target", () => {
+    const message = fromTill({ to: "everyone" as any });
+
+    expect(checkTillMessage(message, "till-a", "venue-1")).toMatch(/target/);
+  });
+
+  it("drops journal events, which only the relay sends", () => {
+    const message = fromTill({ type: "journal_event" });
+
+    expect(checkTillMessage(message, "till-a", "venue-1")).toMatch(
+      /only the relay/
+    );
+  });
+});
+
+describe("connectToServer", () => {
+  let socket: { write: jest.Mock; destroy: jest.Mock; on: jest.Mock };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+    jest.spyOn(DeviceService, "getDeviceId").mockReturnValue("till-a");
+    jest.spyOn(DeviceService, "getUserId").mockReturnValue("user-1");
+    jest.spyOn(DeviceService, "getVenueId").mockReturnValue("venue-1");
+    jest.spyOn(LamportClockService, "getCurrent").mockReturnValue(1);
+
+    // A relay that accepts the connection but never answers
+    socket = { write: jest.fn(), destroy: jest.fn(), on: jest.fn() };
+    (TcpSocket as any).createConnection = jest.fn((_options, connected) => {
+      connected();
+      return socket;
+    });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  const connect = () => {
+    const attempt = new TcpService().connectToServer("10.0.0.2", 8080);
+    attempt.catch(() => {}); // Settled before the test awaits it
+    return attempt;
+  };
+
+  it("fails with a retryable error when the relay does not answer", async () => {
+    jest
+      .spyOn(IdentityKeyService, "getIdentity")
+      .mockResolvedValue(generateKeyPair());
+    const attempt = connect();
+
+    await jest.advanceTimersByTimeAsync(HANDSHAKE_TIMEOUT_MS);
+
+    await expect(attempt).rejects.toThrow(/did not answer the handshake/);
+    await expect(attempt).rejects.not.toBeInstanceOf(HandshakeRejectedError);
+    expect(socket.destroy).toHaveBeenCalled();
+  });
+
+  it("fails with a retryable error when its key cannot be loaded", async () => {
+    jest
+      .spyOn(IdentityKeyService, "getIdentity")
+      .mockRejectedValue(new Error("keychain locked"));
+    const attempt = connect();
+
+    await jest.advanceTimersByTimeAsync(0);
+
+    await expect(attempt).rejects.toThrow(/keychain locked/);
+    await expect(attempt).rejects.not.toBeInstanceOf(HandshakeRejectedError);
+  });
+});
+
+describe("unpairClient", () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("forgets the till and closes its connection", async () => {
+    const unpair = jest
+      .spyOn(PairingService, "unpairDevice")
+      .mockResolvedValue(undefined);
+    const onClientDisconnected = jest.fn();
+    const socket = { destroy: jest.fn() };
+    const tcp = new TcpService();
+    tcp.addDelegate({ onClientDisconnected });
+    (tcp as any).connectedClients.set("till-a", socket);
+
+    await tcp.unpairClient("till-a");
+
+    expect(unpair).toHaveBeenCalledWith("till-a");
+    expect(socket.destroy).toHaveBeenCalled();
+    expect(onClientDisconnected).toHaveBeenCalledWith("till-a");
+    expect(tcp.getConnectedClients()).toEqual([]);
+  });
+});
@@ -0,0 +1,23 @@
+/**
+ * Globally unique identity of an event: the device that created it plus
+ * that device's own sequence number. Stable across retries and devices,
+ * so it is used to recognise events that were already received.
+ */
+export function toGlobalEventId(deviceId: string, sequence: number): string {
+  return `${deviceId}:${sequence}`;
+}
+
+/**
+ * Thrown when a received event reuses the global ID of a different event
+ * The device issued the same sequence twice, so the event must not be
+ * mistaken for a copy of the one already stored.
+ */
+export class EventIdentityConflictError extends Error {
+  constructor(
+    public readonly globalId: string,
+    public readonly existingEventId: string
+  ) {
+    super(`Global ID ${globalId} is already used by event ${existingEventId}`);
+    this.name = "EventIdentityConflictError";
+  }
+}
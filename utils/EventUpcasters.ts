@@ -0,0 +1,115 @@
+import { EventType } from "@/models/Event";
+
+/**
+ * Schema version stamped on every event written by this app version
+ * Bump it together with a registered upcaster whenever a payload changes.
+ *
+ * v1: original payloads (orders carried their computed totals)
+ * v2: order payloads carry only facts; totals are derived by the projection
+ */
+export const EVENT_SCHEMA_VERSION = 2;
+
+/**
+ * Event metadata available to upcasters, for fields older payloads lacked
+ */
+export interface UpcastContext {
+  entityId: string;
+  createdAt: number;
+}
+
+export type Upcaster = (payload: any, context: UpcastContext) => any;
+
+const upcasters = new Map<string, Upcaster>();
+
+const upcasterKey = (type: EventType, fromVersion: number) =>
+  `${type}@${fromVersion}`;
+
+/**
+ * Register an upcaster turning a payload of fromVersion into fromVersion + 1
+ */
+export function registerUpcaster(
+  type: EventType,
+  fromVersion: number,
+  upcaster: Upcaster
+): void {
+  upcasters.set(upcasterKey(type, fromVersion), upcaster);
+}
+
+/**
+ * Normalise a stored version: events written before versioning read as v1
+ */
+export function normalizeSchemaVersion(version: number | undefined): number {
+  return version && version > 0 ? version : 1;
+}
+
+/**
+ * Check whether this app version can read events of the given schema version
+ */
+export function isSupportedSchemaVersion(version: number | undefined): boolean {
+  return normalizeSchemaVersion(version) <= EVENT_SCHEMA_VERSION;
+}
+
+/**
+ * Upgrade a payload step by step to the current schema version
+ * Versions without a registered upcaster for a type are left unchanged.
+ */
+export function upcastPayload(
+  type: EventType,
+  fromVersion: number | undefined,
+  payload: any,
+  context: UpcastContext
+): any {
+  let upgraded = payload;
+  for (
+    let version = normalizeSchemaVersion(fromVersion);
+    version < EVENT_SCHEMA_VERSION;
+    version++
+  ) {
+    const upcaster = upcasters.get(upcasterKey(type, version));
+    if (upcaster) {
+      upgraded = upcaster(upgraded, context);
+    }
+  }
+  return upgraded;
+}
+
+/**
+ * Parse a serialized payload and upgrade it to the current schema version
+ * Returns null if the payload is not valid JSON.
+ */
+export function parseAndUpcastPayload(
+  type: EventType,
+  fromVersion: number | undefined,
+  payloadJson: string,
+  context: UpcastContext
+): any {
+  let payload: any;
+  try {
+    payload = JSON.parse(payloadJson);
+  } catch {
+    return null;
+  }
+  return upcastPayload(type, fromVersion, payload, context);
+}
+
+// v1 -> v2: order payloads no longer carry derived totals
+const withoutTotals = ({
+  subtotalCents,
+  discountCents,
+  taxCents,
+  troncCents,
+  totalCents,
+  ...rest
+}: any) => rest;
+
+registerUpcaster("add_item", 1, (payload, context) => ({
+  ...withoutTotals(payload),
+  orderId: payload.orderId ?? context.entityId,
+  openedAt: payload.openedAt ?? context.createdAt,
+}));
+
+registerUpcaster("close_check", 1, (payload, context) => ({
+  ...withoutTotals(payload),
+  orderId: payload.orderId ?? context.entityId,
+  closedAt: payload.closedAt ?? context.createdAt,
+}));
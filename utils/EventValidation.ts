@@ -0,0 +1,335 @@
+import { EntityType, EventType } from "@/models/Event";
+import { EventEnvelope, EventPayloadMap } from "@/models/EventPayload";
+import {
+  EVENT_SCHEMA_VERSION,
+  isSupportedSchemaVersion,
+  parseAndUpcastPayload,
+} from "./EventUpcasters";
+
+/**
+ * Thrown when an event payload does not match the schema of its type
+ */
+export class EventValidationError extends Error {
+  constructor(public readonly eventType: string, message: string) {
+    super(`Invalid ${eventType} event: ${message}`);
+    this.name = "EventValidationError";
+  }
+}
+
+type FieldKind =
+  | "string"
+  | "number"
+  | "cents"
+  | "count"
+  | "boolean"
+  | "items"
+  | { oneOf: readonly string[] };
+
+interface FieldSpec {
+  kind: FieldKind;
+  optional?: boolean;
+}
+
+const required = (kind: FieldKind): FieldSpec => ({ kind });
+const optional = (kind: FieldKind): FieldSpec => ({ kind, optional: true });
+
+const ENTITY_TYPES: readonly EntityType[] = [
+  "table",
+  "order",
+  "reservation",
+  "guest_profile",
+  "payment",
+  "print",
+];
+
+/**
+ * Runtime schema for every event payload
+ */
+const PAYLOAD_SCHEMAS: {
+  [T in EventType]: Record<keyof EventPayloadMap[T], FieldSpec>;
+} = {
+  add_item: {
+    orderId: required("string"),
+    items: required("items"),
+    tableId: optional("string"),
+    guestId: optional("string"),
+    reservationId: optional("string"),
+    openedAt: optional("number"),
+  },
+  change_quantity: {
+    orderId: required("string"),
+    items: required("items"),
+  },
+  close_check: {
+    orderId: required("string"),
+    closedAt: required("number"),
+  },
+  void_item: {
+    orderId: required("string"),
+    voidedAt: required("number"),
+    itemId: optional("string"),
+  },
+  apply_discount: {
+    orderId: required("string"),
+    discountCents: required("cents"),
+  },
+  create_reservation: {
+    reservationId: required("string"),
+    guestName: required("string"),
+    partySize: required("count"),
+    reservedFor: required("number"),
+    guestId: optional("string"),
+    tableId: optional("string"),
+  },
+  update_reservation: {
+    reservationId: required("string"),
+    guestName: optional("string"),
+    partySize: optional("count"),
+    reservedFor: optional("number"),
+  },
+  assign_reservation: {
+    reservationId: required("string"),
+    tableId: required("string"),
+  },
+  move_reservation: {
+    reservationId: required("string"),
+    toTableId: required("string"),
+    fromTableId: optional("string"),
+    reservedFor: optional("number"),
+  },
+  set_reservation_status: {
+    reservationId: required("string"),
+    status: required({
+      oneOf: ["booked", "seated", "completed", "cancelled", "no_show"],
+    }),
+  },
+  print_ticket: {
+    printJobId: required("string"),
+    printerId: required("string"),
+    ticketType: required({ oneOf: ["kitchen", "receipt", "bill"] }),
+    orderId: optional("string"),
+  },
+  print_result: {
+    printJobId: required("string"),
+    success: required("boolean"),
+    error: optional("string"),
+  },
+  payment_captured: {
+    paymentId: required("string"),
+    orderId: required("string"),
+    amountCents: required("cents"),
+    method: required({ oneOf: ["card", "cash", "other"] }),
+    tipCents: optional("cents"),
+    reference: optional("string"),
+  },
+  payment_refund: {
+    paymentId: required("string"),
+    orderId: required("string"),
+    amountCents: required("cents"),
+    reason: optional("string"),
+  },
+};
+
+/**
+ * Check if a string is a known event type
+ * Own keys only, so "constructor" or "__proto__" never count as a type.
+ */
+export function isEventType(type: unknown): type is EventType {
+  return (
+    typeof type === "string" &&
+    Object.prototype.hasOwnProperty.call(PAYLOAD_SCHEMAS, type)
+  );
+}
+
+function validateItems(value: unknown): string | null {
+  if (!Array.isArray(value)) {
+    return "must be an array";
+  }
+
+  for (let i = 0; i < value.length; i++) {
+    const item = value[i];
+    if (!item || typeof item !== "object") {
+      return `[${i}] must be an object`;
+    }
+    if (typeof item.id !== "string" || typeof item.name !== "string") {
+      return `[${i}] must have a string id and name`;
+    }
+    if (!Number.isInteger(item.quantity) || item.quantity <= 0) {
+      return `[${i}].quantity must be a positive integer`;
+    }
+    if (!Number.isInteger(item.unitPriceCents) || item.unitPriceCents < 0) {
+      return `[${i}].unitPriceCents must be a non-negative integer`;
+    }
+    if (!Number.isInteger(item.subtotalCents) || item.subtotalCents < 0) {
+      return `[${i}].subtotalCents must be a non-negative integer`;
+    }
+  }
+
+  return null;
+}
+
+function validateField(kind: FieldKind, value: unknown): string | null {
+  if (typeof kind === "object") {
+    return typeof value === "string" && kind.oneOf.includes(value)
+      ? null
+      : `must be one of ${kind.oneOf.join(", ")}`;
+  }
+
+  switch (kind) {
+    case "string":
+      return typeof value === "string" && value.length > 0
+        ? null
+        : "must be a non-empty string";
+    case "number":
+      return typeof value === "number" && Number.isFinite(value)
+        ? null
+        : "must be a number";
+    case "cents":
+      return Number.isInteger(value) && (value as number) >= 0
+        ? null
+        : "must be a non-negative integer amount in cents";
+    case "count":
+      return Number.isInteger(value) && (value as number) > 0
+        ? null
+        : "must be a positive integer";
+    case "boolean":
+      return typeof value === "boolean" ? null : "must be a boolean";
+    case "items":
+      return validateItems(value);
+  }
+}
+
+/**
+ * Validate a payload against the schema of its event type
+ * Returns an error message, or null if the payload is valid
+ */
+export function validateEventPayload(
+  type: EventType,
+  payload: unknown
+): string | null {
+  if (!isEventType(type)) {
+    return `unknown event type "${type}"`;
+  }
+  const schema: Record<string, FieldSpec> = PAYLOAD_SCHEMAS[type];
+
+  if (!payload || typeof payload !== "object" || Array.isArray(payload)) {
+    return "payload must be an object";
+  }
+
+  const record = payload as Record<string, unknown>;
+  for (const [field, spec] of Object.entries(schema)) {
+    const value = record[field];
+    if (value === undefined || value === null) {
+      if (!spec.optional) {
+        return `${field} is required`;
+      }
+      continue;
+    }
+
+    const error = validateField(spec.kind, value);
+    if (error) {
+      return `${field} ${error}`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Parse, upcast and validate a serialized payload of any supported version
+ * Returns an error message, or null if the payload is valid
+ */
+export function validateEventPayloadJson(
+  type: EventType,
+  payloadJson: string,
+  schemaVersion: number | undefined,
+  context: { entityId: string; createdAt: number }
+): string | null {
+  if (!isSupportedSchemaVersion(schemaVersion)) {
+    return `unsupported schema version ${schemaVersion} (this device reads up to ${EVENT_SCHEMA_VERSION})`;
+  }
+
+  const payload = parseAndUpcastPayload(
+    type,
+    schemaVersion,
+    payloadJson,
+    context
+  );
+  if (payload === null) {
+    return "payload is not valid JSON";
+  }
+  return validateEventPayload(type, payload);
+}
+
+/**
+ * Validate an event received from another device
+ * Returns an error message, or null if the envelope is valid
+ */
+export function validateEventEnvelope(envelope: unknown): string | null {
+  if (!envelope || typeof envelope !== "object") {
+    return "event must be an object";
+  }
+
+  const e = envelope as Partial<EventEnvelope>;
+  const stringFields = [
+    "id",
+    "entityId",
+    "payloadJson",
+    "deviceId",
+    "relayId",
+    "userId",
+    "venueId",
+  ] as const;
+
+  for (const field of stringFields) {
+    if (typeof e[field] !== "string") {
+      return `${field} must be a string`;
+    }
+  }
+  if (!ENTITY_TYPES.includes(e.entity as EntityType)) {
+    return `unknown entity "${e.entity}"`;
+  }
+  if (!isEventType(e.type)) {
+    return `unknown event type "${e.type}"`;
+  }
+  if (!Number.isInteger(e.sequence) || !Number.isInteger(e.lamportClock)) {
+    return "sequence and lamportClock must be integers";
+  }
+  if (typeof e.createdAt !== "number") {
+    return "createdAt must be a number";
+  }
+  if (e.schemaVersion !== undefined && !Number.isInteger(e.schemaVersion)) {
+    return "schemaVersion must be an integer";
+  }
+  for (const field of [
+    "causationId",
+    "correlationId",
+    "baseEventId",
+  ] as const) {
+    if (e[field] !== undefined && typeof e[field] !== "string") {
+      return `${field} must be a string`;
+    }
+  }
+
+  return validateEventPayloadJson(
+    e.type,
+    e.payloadJson as string,
+    e.schemaVersion,
+    { entityId: e.entityId as string, createdAt: e.createdAt }
+  );
+}
+
+/**
+ * Validate and serialize a payload for writing
+ * Throws EventValidationError if the payload is invalid
+ */
+export function serializeEventPayload<T extends EventType>(
+  type: T,
+  payload: EventPayloadMap[T]
+): string {
+  const error = validateEventPayload(type, payload);
+  if (error) {
+    throw new EventValidationError(type, error);
+  }
+  return JSON.stringify(payload);
+}
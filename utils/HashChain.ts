@@ -0,0 +1,87 @@
+import { sha256 } from "@noble/hashes/sha256";
+import { bytesToHex, utf8ToBytes } from "@noble/hashes/utils";
+
+/**
+ * previousHash of the first event in a journal
+ */
+export const GENESIS_HASH = "0".repeat(64);
+
+/**
+ * The immutable content of an event that is covered by its hash
+ * Mutable bookkeeping (status, acked/applied timestamps) is left out.
+ */
+export interface ChainedEventContent {
+  id: string;
+  journalId: string;
+  journalSequence: number;
+  sequence: number;
+  entity: string;
+  entityId: string;
+  type: string;
+  payloadJson: string;
+  deviceId: string;
+  relayId: string;
+  userId: string;
+  venueId: string;
+  lamportClock: number;
+  schemaVersion: number;
+  // Left out of the hash when missing, so older chains still verify
+  causationId?: string;
+  correlationId?: string;
+  baseEventId?: string;
+}
+
+export interface JournalClosingContent {
+  journalId: string;
+  date: string;
+  source: string;
+  deviceId: string;
+  venueId: string;
+  eventCount: number;
+  headHash: string;
+}
+
+/**
+ * Serialize a value as JSON with object keys sorted at every level,
+ * so the same content always produces the same string
+ */
+export function canonicalStringify(value: unknown): string {
+  if (value === null || typeof value !== "object") {
+    return JSON.stringify(value ?? null);
+  }
+
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => canonicalStringify(item)).join(",")}]`;
+  }
+
+  const record = value as Record<string, unknown>;
+  return `{${Object.keys(record)
+    .filter((key) => record[key] !== undefined)
+    .sort()
+    .map((key) => `${JSON.stringify(key)}:${canonicalStringify(record[key])}`)
+    .join(",")}}`;
+}
+
+/**
+ * SHA-256 of a string, as lowercase hex
+ */
+export function sha256Hex(input: string): string {
+  return bytesToHex(sha256(utf8ToBytes(input)));
+}
+
+/**
+ * Hash of an event's canonical content chained to the previous event's hash
+ */
+export function computeEventHash(
+  content: ChainedEventContent,
+  previousHash: string
+): string {
+  return sha256Hex(`${previousHash}:${canonicalStringify(content)}`);
+}
+
+/**
+ * Hash sealing a journal: its identity, event count and head of the chain
+ */
+export function computeClosingHash(content: JournalClosingContent): string {
+  return sha256Hex(`closing:${canonicalStringify(content)}`);
+}
@@ -0,0 +1,157 @@
+import { hkdf } from "@noble/hashes/hkdf";
+import { hmac } from "@noble/hashes/hmac";
+import { sha256 } from "@noble/hashes/sha256";
+import { bytesToHex, hexToBytes, utf8ToBytes } from "@noble/hashes/utils";
+import { getRandomBytes } from "expo-crypto";
+
+/**
+ * Signature carried by every message once a connection is authenticated
+ */
+export interface MessageAuth {
+  seq: number; // Per-session counter; a receiver only accepts increasing values
+  mac: string; // HMAC-SHA256 of the message and seq, hex
+}
+
+/**
+ * Why a received message was dropped
+ */
+export type MessageRejection = "unsigned" | "bad_signature" | "replayed";
+
+/**
+ * A random hex nonce, fresh for every connection
+ */
+export function createNonce(): string {
+  return bytesToHex(getRandomBytes(16));
+}
+
+/**
+ * JSON with object keys sorted, so both ends hash the same bytes no matter
+ * how the message was built or parsed
+ */
+export function canonicalJson(value: unknown): string {
+  if (value !== null && typeof (value as any)?.toJSON === "function") {
+    return canonicalJson((value as any).toJSON());
+  }
+  if (Array.isArray(value)) {
+    return `[${value
+      .map((item) => (item === undefined ? "null" : canonicalJson(item)))
+      .join(",")}]`;
+  }
+  if (value !== null && typeof value === "object") {
+    const entries = Object.keys(value)
+      .sort()
+      .filter((key) => (value as any)[key] !== undefined)
+      .map(
+        (key) => `${JSON.stringify(key)}:${canonicalJson((value as any)[key])}`
+      );
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+/**
+ * Derive the secret a till and relay share after pairing with a one-time code
+ * Both ends mix in the connection's nonces and device IDs, so the code is
+ * never sent over the network. The key exchange's binding key is mixed in
+ * too, so a passive eavesdropper cannot try every code offline against the
+ * signed messages. This does not stop an active attacker: a device posing
+ * as the relay during pairing learns a message signed with the secret and
+ * can try every code offline. Staff should check the relay's fingerprint.
+ */
+export function derivePairingSecret(
+  code: string,
+  bindingKey: Uint8Array,
+  relayId: string,
+  deviceId: string,
+  tillNonce: string,
+  relayNonce: string
+): string {
+  const ikm = new Uint8Array([...bindingKey, ...utf8ToBytes(code)]);
+  return bytesToHex(
+    hkdf(
+      sha256,
+      ikm,
+      utf8ToBytes(`${tillNonce}:${relayNonce}`),
+      utf8ToBytes(`epos-pairing:${relayId}:${deviceId}`),
+      32
+    )
+  );
+}
+
+/**
+ * Derive the key signing one connection's messages from the paired secret
+ * Fresh nonces per connection make messages from older connections useless.
+ */
+export function deriveSessionKey(
+  secret: string,
+  tillNonce: string,
+  relayNonce: string
+): Uint8Array {
+  return hkdf(
+    sha256,
+    hexToBytes(secret),
+    utf8ToBytes(`${tillNonce}:${relayNonce}`),
+    utf8ToBytes("epos-session"),
+    32
+  );
+}
+
+function computeMac(key: Uint8Array, message: object, seq: number): string {
+  const { auth, ...content } = message as { auth?: MessageAuth };
+  return bytesToHex(
+    hmac(sha256, key, utf8ToBytes(canonicalJson({ content, seq })))
+  );
+}
+
+function equalsConstantTime(a: string, b: string): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+  let difference = 0;
+  for (let i = 0; i < a.length; i++) {
+    difference |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return difference === 0;
+}
+
+/**
+ * Signs outgoing and verifies incoming messages of one authenticated connection
+ */
+export class PeerSession {
+  private sentSeq = 0;
+  private receivedSeq = 0;
+
+  constructor(private readonly key: Uint8Array) {}
+
+  /**
+   * Sign a message, replacing any signature it already carries
+   */
+  sign<T extends object>(message: T): T & { auth: MessageAuth } {
+    const seq = ++this.sentSeq;
+    return {
+      ...message,
+      auth: { seq, mac: computeMac(this.key, message, seq) },
+    };
+  }
+
+  /**
+   * Check a received message; returns why it must be dropped, or null
+   */
+  verify(message: { auth?: MessageAuth }): MessageRejection | null {
+    const { auth } = message;
+    if (!auth || typeof auth.seq !== "number" || typeof auth.mac !== "string") {
+      return "unsigned";
+    }
+    if (
+      !equalsConstantTime(auth.mac, computeMac(this.key, message, auth.seq))
+    ) {
+      return "bad_signature";
+    }
+    if (auth.seq <= this.receivedSeq) {
+      return "replayed";
+    }
+
+    this.receivedSeq = auth.seq;
+    return null;
+  }
+}
@@ -0,0 +1,216 @@
+import { MAX_FRAME_BYTES } from "@/constants/protocol";
+import { bytesToUtf8, utf8ToBytes } from "@noble/hashes/utils";
+
+/**
+ * Bytes of the length prefix in front of every frame (unsigned, big-endian)
+ */
+export const FRAME_HEADER_BYTES = 4;
+
+/**
+ * A frame that could not be decoded
+ * After a fatal error the stream is out of step and the connection must be
+ * closed; a non-fatal error only loses that one message.
+ */
+export class FrameError extends Error {
+  constructor(
+    message: string,
+    public readonly code:
+      | "frame_too_large"
+      | "invalid_json"
+      | "decryption_failed",
+    public readonly fatal: boolean
+  ) {
+    super(message);
+    this.name = "FrameError";
+  }
+}
+
+/**
+ * Encrypts frame bodies once a connection is secured
+ */
+export interface FrameCipher {
+  readonly overhead: number; // Bytes encryption adds to every frame
+  encrypt(plaintext: Uint8Array): Uint8Array;
+  decrypt(ciphertext: Uint8Array): Uint8Array; // Throws when tampered with
+}
+
+/**
+ * Encode a message as a length-prefixed JSON frame, encrypted with the
+ * connection's cipher when given
+ */
+export function encodeFrame(
+  message: unknown,
+  cipher?: FrameCipher | null
+): Uint8Array {
+  const json = utf8ToBytes(JSON.stringify(message));
+  // Checked before encrypting: a cipher must not skip a frame it never sent
+  const size = json.length + (cipher?.overhead ?? 0);
+  if (size > MAX_FRAME_BYTES) {
+    throw new FrameError(
+      `Message of ${size} bytes exceeds the ${MAX_FRAME_BYTES} byte frame limit`,
+      "frame_too_large",
+      false
+    );
+  }
+
+  const body = cipher ? cipher.encrypt(json) : json;
+
+  const frame = new Uint8Array(FRAME_HEADER_BYTES + body.length);
+  new DataView(frame.buffer).setUint32(0, body.length);
+  frame.set(body, FRAME_HEADER_BYTES);
+  return frame;
+}
+
+export interface FrameDecoderHandlers {
+  onMessage: (message: any) => void;
+  onError: (error: FrameError) => void;
+}
+
+/**
+ * Streaming decoder for one socket
+ * TCP may split a frame across chunks or put several frames in one chunk;
+ * partial frames are buffered until the rest arrives. Every frame holds
+ * one JSON object.
+ */
+export class FrameDecoder {
+  private buffer: Uint8Array = new Uint8Array(0);
+  private failed = false;
+  private cipher: FrameCipher | null = null;
+
+  constructor(
+    private readonly handlers: FrameDecoderHandlers,
+    private readonly maxFrameBytes: number = MAX_FRAME_BYTES
+  ) {}
+
+  /**
+   * Feed a received chunk, emitting every message it completes
+   */
+  push(chunk: Uint8Array) {
+    if (this.failed) {
+      return;
+    }
+
+    this.buffer = concatBytes(this.buffer, chunk);
+
+    const bodies: Uint8Array[] = [];
+    let offset = 0;
+    let oversized: number | null = null;
+    while (this.buffer.length - offset >= FRAME_HEADER_BYTES) {
+      const length = new DataView(
+        this.buffer.buffer,
+        this.buffer.byteOffset + offset,
+        FRAME_HEADER_BYTES
+      ).getUint32(0);
+
+      if (length > this.maxFrameBytes) {
+        oversized = length;
+        break;
+      }
+
+      const end = offset + FRAME_HEADER_BYTES + length;
+      if (this.buffer.length < end) {
+        break; // Wait for the rest of the frame
+      }
+
+      bodies.push(this.buffer.subarray(offset + FRAME_HEADER_BYTES, end));
+      offset = end;
+    }
+
+    // Keep the partial frame before emitting, so a throwing handler
+    // cannot leave the decoder out of step with the stream. Frames ahead
+    // of an oversized one are still complete and delivered.
+    this.buffer =
+      oversized === null ? this.buffer.slice(offset) : new Uint8Array(0);
+    this.failed = oversized !== null;
+    for (const body of bodies) {
+      if (!this.emit(body)) {
+        break;
+      }
+    }
+
+    if (oversized !== null) {
+      this.handlers.onError(
+        new FrameError(
+          `Frame of ${oversized} bytes exceeds the ${this.maxFrameBytes} byte limit`,
+          "frame_too_large",
+          true
+        )
+      );
+    }
+  }
+
+  /**
+   * Decrypt every frame after the current one with this cipher
+   */
+  setCipher(cipher: FrameCipher) {
+    this.cipher = cipher;
+  }
+
+  /**
+   * Drop any buffered partial frame, e.g. when the socket reconnects
+   */
+  reset() {
+    this.buffer = new Uint8Array(0);
+    this.failed = false;
+    this.cipher = null;
+  }
+
+  /**
+   * Decode one frame body; false once the stream can no longer be read
+   */
+  private emit(body: Uint8Array): boolean {
+    let plaintext = body;
+    if (this.cipher) {
+      try {
+        plaintext = this.cipher.decrypt(body);
+      } catch {
+        // Frames are sealed in sequence; nothing after this one can be read
+        this.failed = true;
+        this.handlers.onError(
+          new FrameError(
+            "Frame could not be decrypted",
+            "decryption_failed",
+            true
+          )
+        );
+        return false;
+      }
+    }
+
+    let message: any;
+    try {
+      message = JSON.parse(bytesToUtf8(plaintext));
+    } catch (error) {
+      this.handlers.onError(
+        new FrameError(
+          `Frame is not valid JSON: ${
+            error instanceof Error ? error.message : String(error)
+          }`,
+          "invalid_json",
+          false
+        )
+      );
+      return true;
+    }
+
+    if (typeof message !== "object" || message === null) {
+      this.handlers.onError(
+        new FrameError("Frame is not a JSON object", "invalid_json", false)
+      );
+      return true;
+    }
+
+    this.handlers.onMessage(message);
+    return true;
+  }
+}
+
+function concatBytes(a: Uint8Array, b: Uint8Array): Uint8Array {
+  if (a.length === 0) {
+    return b;
+  }
+  const joined = new Uint8Array(a.length + b.length);
+  joined.set(a);
+  joined.set(b, a.length);
+  return joined;
+}
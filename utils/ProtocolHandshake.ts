@@ -0,0 +1,80 @@
+import {
+  MESSAGE_TYPES,
+  MIN_PROTOCOL_VERSION,
+  MessageType,
+  PROTOCOL_VERSION,
+  REQUIRED_MESSAGE_TYPES,
+} from "@/constants/protocol";
+import schema from "@/db/schema";
+import Constants from "expo-constants";
+
+/**
+ * What a device announces about itself when a connection is set up
+ */
+export interface HandshakeInfo {
+  protocolVersion: number;
+  appVersion: string;
+  schemaVersion: number; // Local database schema version, for diagnostics
+  capabilities: MessageType[]; // Message types the device understands
+}
+
+/**
+ * The peer refused the handshake, or its handshake was refused here
+ */
+export class HandshakeRejectedError extends Error {
+  constructor(public readonly reason: string) {
+    super(reason);
+    this.name = "HandshakeRejectedError";
+  }
+}
+
+/**
+ * This device's handshake
+ */
+export function createHandshake(): HandshakeInfo {
+  return {
+    protocolVersion: PROTOCOL_VERSION,
+    appVersion: Constants.expoConfig?.version ?? "unknown",
+    schemaVersion: schema.version,
+    capabilities: [...MESSAGE_TYPES],
+  };
+}
+
+/**
+ * Check whether a peer can talk to this device
+ * Returns why the peer is incompatible, or null when it is compatible.
+ * Devices with different database schemas can still talk as long as the
+ * protocol ranges overlap; events too new to read are rejected one by one.
+ * The reason is shown to staff, so it names both devices by their role.
+ */
+export function checkHandshake(
+  remote: HandshakeInfo | undefined,
+  localRole: "relay" | "till"
+): string | null {
+  const local = createHandshake();
+  const remoteRole = localRole === "relay" ? "till" : "relay";
+
+  if (!remote || typeof remote.protocolVersion !== "number") {
+    return `The ${remoteRole} runs an older app without version checks. Update it to app ${local.appVersion}.`;
+  }
+
+  if (
+    remote.protocolVersion < MIN_PROTOCOL_VERSION ||
+    remote.protocolVersion > PROTOCOL_VERSION
+  ) {
+    return `The ${remoteRole} speaks protocol ${remote.protocolVersion} (app ${remote.appVersion}) but the ${localRole} needs protocol ${MIN_PROTOCOL_VERSION}-${PROTOCOL_VERSION} (app ${local.appVersion}). Update both to the same app version.`;
+  }
+
+  const capabilities = Array.isArray(remote.capabilities)
+    ? remote.capabilities
+    : [];
+  const missing = REQUIRED_MESSAGE_TYPES.filter(
+    (type) => !capabilities.includes(type)
+  );
+  if (missing.length > 0) {
+    const types = missing.join(", ");
+    return `The ${remoteRole} (app ${remote.appVersion}) does not support ${types} messages. Update it to app ${local.appVersion}.`;
+  }
+
+  return null;
+}
@@ -0,0 +1,140 @@
+import { chacha20poly1305 } from "@noble/ciphers/chacha";
+import { x25519 } from "@noble/curves/ed25519";
+import { hkdf } from "@noble/hashes/hkdf";
+import { sha256 } from "@noble/hashes/sha256";
+import { bytesToHex, hexToBytes, utf8ToBytes } from "@noble/hashes/utils";
+import { getRandomBytes } from "expo-crypto";
+import { FrameCipher } from "./MessageFraming";
+
+/**
+ * An X25519 key pair, hex encoded
+ */
+export interface KeyPair {
+  privateKey: string;
+  publicKey: string;
+}
+
+/**
+ * The keys one end contributes to a connection's key exchange
+ */
+export interface KeyExchangeKeys {
+  identity: KeyPair; // Long-term key of this device
+  ephemeral: KeyPair; // Fresh for every connection
+  peerIdentity: string; // Public key, hex
+  peerEphemeral: string; // Public key, hex
+}
+
+export function generateKeyPair(): KeyPair {
+  const privateKey = getRandomBytes(32);
+  return {
+    privateKey: bytesToHex(privateKey),
+    publicKey: bytesToHex(x25519.getPublicKey(privateKey)),
+  };
+}
+
+/**
+ * Short, human-comparable form of a public key: the first 16 bytes of its
+ * SHA-256 hash in groups of four hex digits
+ */
+export function keyFingerprint(publicKey: string): string {
+  const hex = bytesToHex(sha256(hexToBytes(publicKey)).slice(0, 16));
+  return hex.toUpperCase().match(/.{4}/g)!.join(" ");
+}
+
+/**
+ * Whether a value received from a peer is a hex-encoded X25519 public key
+ */
+export function isPublicKey(value: unknown): value is string {
+  return typeof value === "string" && /^[0-9a-f]{64}$/i.test(value);
+}
+
+const dh = (privateKey: string, publicKey: string) =>
+  x25519.getSharedSecret(hexToBytes(privateKey), hexToBytes(publicKey));
+
+/**
+ * What a connection's key exchange yields for one end
+ */
+export interface TransportKeys {
+  send: FrameCipher;
+  receive: FrameCipher;
+  // Only the two ends of this connection know it; binds other secrets
+  // (such as the pairing secret) to the key exchange
+  bindingKey: Uint8Array;
+}
+
+/**
+ * Derive the frame ciphers of a connection
+ * Mixes the ephemeral keys (forward secrecy) with each side's identity key,
+ * so only the holders of both identity keys end up with the same ciphers.
+ */
+export function deriveTransportCiphers(
+  role: "till" | "relay",
+  keys: KeyExchangeKeys,
+  tillNonce: string,
+  relayNonce: string
+): TransportKeys {
+  const { identity, ephemeral, peerIdentity, peerEphemeral } = keys;
+
+  // Same three shared secrets on both ends, in the same order:
+  // till ephemeral × relay ephemeral, till ephemeral × relay identity,
+  // till identity × relay ephemeral
+  const secrets =
+    role === "till"
+      ? [
+          dh(ephemeral.privateKey, peerEphemeral),
+          dh(ephemeral.privateKey, peerIdentity),
+          dh(identity.privateKey, peerEphemeral),
+        ]
+      : [
+          dh(ephemeral.privateKey, peerEphemeral),
+          dh(identity.privateKey, peerEphemeral),
+          dh(ephemeral.privateKey, peerIdentity),
+        ];
+
+  const ikm = new Uint8Array(secrets.length * 32);
+  secrets.forEach((secret, i) => ikm.set(secret, i * 32));
+
+  const okm = hkdf(
+    sha256,
+    ikm,
+    utf8ToBytes(`${tillNonce}:${relayNonce}`),
+    utf8ToBytes("epos-transport"),
+    96
+  );
+  const tillToRelay = new ChaChaFrameCipher(okm.slice(0, 32));
+  const relayToTill = new ChaChaFrameCipher(okm.slice(32, 64));
+  const bindingKey = okm.slice(64, 96);
+
+  return role === "till"
+    ? { send: tillToRelay, receive: relayToTill, bindingKey }
+    : { send: relayToTill, receive: tillToRelay, bindingKey };
+}
+
+/**
+ * ChaCha20-Poly1305 for one direction of a connection
+ * The nonce is a frame counter, so frames must be opened in the order they
+ * were sealed; a dropped, reordered or altered frame fails to decrypt.
+ */
+class ChaChaFrameCipher implements FrameCipher {
+  readonly overhead = 16; // Poly1305 tag
+  private counter = 0;
+
+  constructor(private readonly key: Uint8Array) {}
+
+  encrypt(plaintext: Uint8Array): Uint8Array {
+    return chacha20poly1305(this.key, this.nextNonce()).encrypt(plaintext);
+  }
+
+  decrypt(ciphertext: Uint8Array): Uint8Array {
+    return chacha20poly1305(this.key, this.nextNonce()).decrypt(ciphertext);
+  }
+
+  private nextNonce(): Uint8Array {
+    const nonce = new Uint8Array(12);
+    const view = new DataView(nonce.buffer);
+    view.setUint32(4, Math.floor(this.counter / 2 ** 32));
+    view.setUint32(8, this.counter >>> 0);
+    this.counter++;
+    return nonce;
+  }
+}
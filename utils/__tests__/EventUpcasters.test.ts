@@ -0,0 +1,56 @@
+import {
+  EVENT_SCHEMA_VERSION,
+  isSupportedSchemaVersion,
+  normalizeSchemaVersion,
+  parseAndUpcastPayload,
+  upcastPayload,
+} from "@/utils/EventUpcasters";
+
+const context = { entityId: "order-1", createdAt: 4000 };
+
+describe("event upcasters", () => {
+  it("reads events without a version as v1", () => {
+    expect(normalizeSchemaVersion(undefined)).toBe(1);
+    expect(normalizeSchemaVersion(0)).toBe(1);
+    expect(normalizeSchemaVersion(2)).toBe(2);
+  });
+
+  it("only supports versions up to the current one", () => {
+    expect(isSupportedSchemaVersion(undefined)).toBe(true);
+    expect(isSupportedSchemaVersion(EVENT_SCHEMA_VERSION)).toBe(true);
+    expect(isSupportedSchemaVersion(EVENT_SCHEMA_VERSION + 1)).toBe(false);
+  });
+
+  it("drops v1 totals from add_item and fills in the order facts", () => {
+    const payload = upcastPayload(
+      "add_item",
+      1,
+      { items: [], subtotalCents: 900, taxCents: 90, totalCents: 1098 },
+      context
+    );
+
+    expect(payload).toEqual({ items: [], orderId: "order-1", openedAt: 4000 });
+  });
+
+  it("keeps facts a v1 close_check already carried", () => {
+    const payload = upcastPayload(
+      "close_check",
+      undefined,
+      { orderId: "order-2", closedAt: 5000, totalCents: 1098 },
+      context
+    );
+
+    expect(payload).toEqual({ orderId: "order-2", closedAt: 5000 });
+  });
+
+  it("leaves current payloads and types without an upcaster unchanged", () => {
+    const payload = { items: [], orderId: "order-1", subtotalCents: 1 };
+
+    expect(upcastPayload("add_item", 2, payload, context)).toBe(payload);
+    expect(upcastPayload("apply_discount", 1, payload, context)).toBe(payload);
+  });
+
+  it("returns null for a payload that is not JSON", () => {
+    expect(parseAndUpcastPayload("add_item", 2, "{", context)).toBeNull();
+  });
+});
@@ -0,0 +1,148 @@
+import { EventEnvelope } from "@/models/EventPayload";
+import { EVENT_SCHEMA_VERSION } from "@/utils/EventUpcasters";
+import {
+  EventValidationError,
+  isEventType,
+  serializeEventPayload,
+  validateEventEnvelope,
+  validateEventPayload,
+} from "@/utils/EventValidation";
+
+const latte = {
+  id: "line-1",
+  menuItemId: "item-001",
+  name: "Latte",
+  quantity: 1,
+  unitPriceCents: 450,
+  subtotalCents: 450,
+};
+
+const envelope = (overrides: Partial<EventEnvelope> = {}): EventEnvelope => ({
+  id: "event-1",
+  sequence: 1,
+  entity: "order",
+  entityId: "order-1",
+  type: "add_item",
+  payloadJson: JSON.stringify({ orderId: "order-1", items: [latte] }),
+  deviceId: "till-a",
+  relayId: "relay-1",
+  userId: "user-1",
+  venueId: "venue-1",
+  lamportClock: 1,
+  createdAt: 1000,
+  schemaVersion: EVENT_SCHEMA_VERSION,
+  ...overrides,
+});
+
+describe("isEventType", () => {
+  it("knows the event types and nothing inherited", () => {
+    expect(isEventType("add_item")).toBe(true);
+    expect(isEventType("constructor")).toBe(false);
+    expect(isEventType("toString")).toBe(false);
+    expect(isEventType("__proto__")).toBe(false);
+    expect(isEventType(42)).toBe(false);
+  });
+});
+
+describe("validateEventPayload", () => {
+  it("accepts a payload matching its schema", () => {
+    expect(
+      validateEventPayload("apply_discount", {
+        orderId: "order-1",
+        discountCents: 100,
+      })
+    ).toBeNull();
+  });
+
+  it("reports a missing required field", () => {
+    expect(validateEventPayload("close_check", { orderId: "order-1" })).toBe(
+      "closedAt is required"
+    );
+  });
+
+  it("refuses amounts that are not whole, non-negative cents", () => {
+    const discount = (discountCents: unknown) =>
+      validateEventPayload("apply_discount", {
+        orderId: "order-1",
+        discountCents,
+      });
+
+    expect(discount(1.5)).toMatch(/discountCents must be/);
+    expect(discount(-1)).toMatch(/discountCents must be/);
+    expect(discount("100")).toMatch(/discountCents must be/);
+  });
+
+  it("checks every item line", () => {
+    expect(
+      validateEventPayload("add_item", {
+        orderId: "order-1",
+        items: [latte, { ...latte, quantity: 0 }],
+      })
+    ).toBe("items [1].quantity must be a positive integer");
+  });
+
+  it("refuses unknown and inherited types", () => {
+    expect(validateEventPayload("refund_all" as any, {})).toMatch(/unknown/);
+    expect(validateEventPayload("constructor" as any, {})).toMatch(/unknown/);
+  });
+});
+
+describe("serializeEventPayload", () => {
+  it("serializes a valid payload", () => {
+    const payload = { orderId: "order-1", closedAt: 5000 };
+
+    expect(serializeEventPayload("close_check", payload)).toBe(
+      JSON.stringify(payload)
+    );
+  });
+
+  it("throws EventValidationError for an invalid payload", () => {
+    expect(() =>
+      serializeEventPayload("close_check", { orderId: "" } as any)
+    ).toThrow(EventValidationError);
+  });
+});
+
+describe("validateEventEnvelope", () => {
+  it("accepts a well-formed envelope", () => {
+    expect(validateEventEnvelope(envelope())).toBeNull();
+  });
+
+  it("refuses unknown and inherited event types", () => {
+    expect(
+      validateEventEnvelope(envelope({ type: "constructor" as any }))
+    ).toMatch(/unknown event type/);
+    expect(
+      validateEventEnvelope(envelope({ type: "__proto__" as any }))
+    ).toMatch(/unknown event type/);
+  });
+
+  it("refuses envelopes with missing or mistyped fields", () => {
+    expect(validateEventEnvelope(null)).toBe("event must be an object");
+    expect(validateEventEnvelope(envelope({ deviceId: 7 as any }))).toBe(
+      "deviceId must be a string"
+    );
+    expect(validateEventEnvelope(envelope({ sequence: 1.5 }))).toMatch(
+      /must be integers/
+    );
+  });
+
+  it("refuses events from a newer schema version", () => {
+    expect(
+      validateEventEnvelope(
+        envelope({ schemaVersion: EVENT_SCHEMA_VERSION + 1 })
+      )
+    ).toMatch(/unsupported schema version/);
+  });
+
+  it("validates the payload after upcasting older versions", () => {
+    const v1 = JSON.stringify({ items: [latte], subtotalCents: 450 });
+
+    expect(
+      validateEventEnvelope(envelope({ schemaVersion: 1, payloadJson: v1 }))
+    ).toBeNull();
+    expect(
+      validateEventEnvelope(envelope({ payloadJson: '{"items":[]}' }))
+    ).toBe("orderId is required");
+  });
+});
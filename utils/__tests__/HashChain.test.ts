@@ -0,0 +1,126 @@
+import {
+  canonicalStringify,
+  ChainedEventContent,
+  computeClosingHash,
+  computeEventHash,
+  GENESIS_HASH,
+  sha256Hex,
+} from "@/utils/HashChain";
+
+const content = (
+  overrides: Partial<ChainedEventContent> = {}
+): ChainedEventContent => ({
+  id: "event-1",
+  journalId: "journal-1",
+  journalSequence: 1,
+  sequence: 1,
+  entity: "order",
+  entityId: "order-1",
+  type: "add_item",
+  payloadJson: '{"items":[]}',
+  deviceId: "till-a",
+  relayId: "relay-1",
+  userId: "user-1",
+  venueId: "venue-1",
+  lamportClock: 1,
+  schemaVersion: 2,
+  ...overrides,
+});
+
+/**
+ * Hash each event onto the previous one, starting from the genesis hash
+ */
+function chain(events: ChainedEventContent[]): string[] {
+  const hashes: string[] = [];
+  events.reduce((previousHash, event) => {
+    const hash = computeEventHash(event, previousHash);
+    hashes.push(hash);
+    return hash;
+  }, GENESIS_HASH);
+  return hashes;
+}
+
+describe("canonicalStringify", () => {
+  it("sorts object keys at every level", () => {
+    expect(
+      canonicalStringify({ b: 1, a: { d: [2, { f: 3, e: 4 }], c: 5 } })
+    ).toBe('{"a":{"c":5,"d":[2,{"e":4,"f":3}]},"b":1}');
+  });
+
+  it("leaves out undefined fields and keeps nulls", () => {
+    expect(canonicalStringify({ a: undefined, b: null })).toBe('{"b":null}');
+    expect(canonicalStringify(undefined)).toBe("null");
+  });
+
+  it("keeps array order", () => {
+    expect(canonicalStringify([3, 1, 2])).toBe("[3,1,2]");
+  });
+});
+
+describe("computeEventHash", () => {
+  it("hashes with SHA-256", () => {
+    expect(sha256Hex("abc")).toBe(
+      "ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad"
+    );
+  });
+
+  it("does not depend on key order or missing optional fields", () => {
+    const event = content();
+    const reordered = Object.fromEntries(
+      Object.entries(event).reverse()
+    ) as ChainedEventContent;
+
+    expect(computeEventHash(reordered, GENESIS_HASH)).toBe(
+      computeEventHash(event, GENESIS_HASH)
+    );
+    expect(
+      computeEventHash({ ...event, causationId: undefined }, GENESIS_HASH)
+    ).toBe(computeEventHash(event, GENESIS_HASH));
+  });
+
+  it("changes when any field or the previous hash changes", () => {
+    const hash = computeEventHash(content(), GENESIS_HASH);
+
+    expect(
+      computeEventHash(content({ payloadJson: "{}" }), GENESIS_HASH)
+    ).not.toBe(hash);
+    expect(
+      computeEventHash(content({ baseEventId: "event-0" }), GENESIS_HASH)
+    ).not.toBe(hash);
+    expect(computeEventHash(content(), "f".repeat(64))).not.toBe(hash);
+  });
+
+  it("breaks every later link when an event is altered", () => {
+    const events = [1, 2, 3].map((n) =>
+      content({ id: `event-${n}`, journalSequence: n, sequence: n })
+    );
+    const original = chain(events);
+
+    const tampered = [...events];
+    tampered[1] = { ...events[1], payloadJson: '{"items":["free"]}' };
+    const rehashed = chain(tampered);
+
+    expect(rehashed[0]).toBe(original[0]);
+    expect(rehashed[1]).not.toBe(original[1]);
+    expect(rehashed[2]).not.toBe(original[2]);
+  });
+});
+
+describe("computeClosingHash", () => {
+  it("seals the head of the chain", () => {
+    const seal = {
+      journalId: "journal-1",
+      date: "2026-10-19",
+      source: "relay",
+      deviceId: "relay-1",
+      venueId: "venue-1",
+      eventCount: 3,
+      headHash: "a".repeat(64),
+    };
+
+    expect(computeClosingHash(seal)).toBe(computeClosingHash({ ...seal }));
+    expect(computeClosingHash({ ...seal, headHash: "b".repeat(64) })).not.toBe(
+      computeClosingHash(seal)
+    );
+  });
+});
@@ -0,0 +1,96 @@
+import {
+  canonicalJson,
+  derivePairingSecret,
+  deriveSessionKey,
+  MessageAuth,
+  PeerSession,
+} from "@/utils/MessageAuth";
+
+const secret = "ab".repeat(32);
+
+/**
+ * Two ends of one connection, signing with the same session key
+ */
+function connection() {
+  const key = deriveSessionKey(secret, "till-nonce", "relay-nonce");
+  return { till: new PeerSession(key), relay: new PeerSession(key) };
+}
+
+const update = (n: number): { data: object; auth?: MessageAuth } => ({
+  data: { n },
+});
+
+describe("canonicalJson", () => {
+  it("does not depend on key order", () => {
+    expect(canonicalJson({ b: 1, a: { d: 2, c: 3 } })).toBe(
+      canonicalJson({ a: { c: 3, d: 2 }, b: 1 })
+    );
+  });
+});
+
+describe("derivePairingSecret", () => {
+  it("depends on the code and the key exchange", () => {
+    const bindingKey = new Uint8Array(32).fill(1);
+    const derive = (code: string, key = bindingKey) =>
+      derivePairingSecret(code, key, "relay-1", "till-a", "n1", "n2");
+
+    expect(derive("123456")).toBe(derive("123456"));
+    expect(derive("123457")).not.toBe(derive("123456"));
+    expect(derive("123456", new Uint8Array(32).fill(2))).not.toBe(
+      derive("123456")
+    );
+  });
+});
+
+describe("PeerSession", () => {
+  it("accepts messages signed by the other end", () => {
+    const { till, relay } = connection();
+
+    expect(relay.verify(till.sign(update(1)))).toBeNull();
+    expect(relay.verify(till.sign(update(2)))).toBeNull();
+  });
+
+  it("drops unsigned messages", () => {
+    const { relay } = connection();
+
+    expect(relay.verify(update(1))).toBe("unsigned");
+    expect(relay.verify({ auth: { seq: "1" } } as any)).toBe("unsigned");
+  });
+
+  it("drops messages with a bad MAC", () => {
+    const { till, relay } = connection();
+    const signed = till.sign(update(1));
+    const altered = { ...signed, data: { n: 2 } };
+
+    expect(relay.verify(altered)).toBe("bad_signature");
+    expect(relay.verify({ ...signed, auth: { ...signed.auth, seq: 5 } })).toBe(
+      "bad_signature"
+    );
+  });
+
+  it("drops messages signed with another session's key", () => {
+    const { relay } = connection();
+    const other = new PeerSession(
+      deriveSessionKey(secret, "till-nonce", "other-nonce")
+    );
+
+    expect(relay.verify(other.sign(update(1)))).toBe("bad_signature");
+  });
+
+  it("drops a replayed message", () => {
+    const { till, relay } = connection();
+    const signed = till.sign(update(1));
+
+    expect(relay.verify(signed)).toBeNull();
+    expect(relay.verify(signed)).toBe("replayed");
+  });
+
+  it("drops a message older than one already accepted", () => {
+    const { till, relay } = connection();
+    const first = till.sign(update(1));
+    const second = till.sign(update(2));
+
+    expect(relay.verify(second)).toBeNull();
+    expect(relay.verify(first)).toBe("replayed");
+  });
+});
@@ -0,0 +1,154 @@
+import { MAX_FRAME_BYTES } from "@/constants/protocol";
+import {
+  encodeFrame,
+  FrameCipher,
+  FrameDecoder,
+  FrameError,
+  FRAME_HEADER_BYTES,
+} from "@/utils/MessageFraming";
+
+/**
+ * XOR "cipher" with a one-byte checksum, enough to tell frames apart
+ */
+const xorCipher = (): FrameCipher => ({
+  overhead: 1,
+  encrypt: (plaintext) => {
+    const sealed = new Uint8Array(plaintext.length + 1);
+    plaintext.forEach((byte, i) => (sealed[i] = byte ^ 0x5a));
+    sealed[plaintext.length] = plaintext.reduce((sum, b) => sum ^ b, 0);
+    return sealed;
+  },
+  decrypt: (ciphertext) => {
+    const plaintext = ciphertext
+      .subarray(0, ciphertext.length - 1)
+      .map((byte) => byte ^ 0x5a);
+    if (
+      plaintext.reduce((sum, b) => sum ^ b, 0) !==
+      ciphertext[ciphertext.length - 1]
+    ) {
+      throw new Error("Tampered");
+    }
+    return plaintext;
+  },
+});
+
+function decoder(maxFrameBytes?: number) {
+  const messages: any[] = [];
+  const errors: FrameError[] = [];
+  const instance = new FrameDecoder(
+    {
+      onMessage: (message) => messages.push(message),
+      onError: (error) => errors.push(error),
+    },
+    maxFrameBytes
+  );
+  return { instance, messages, errors };
+}
+
+const concat = (...frames: Uint8Array[]) =>
+  Uint8Array.from(frames.flatMap((frame) => Array.from(frame)));
+
+describe("encodeFrame", () => {
+  it("prefixes the JSON body with its length", () => {
+    const frame = encodeFrame({ type: "ping" });
+    const body = JSON.stringify({ type: "ping" });
+
+    expect(new DataView(frame.buffer).getUint32(0)).toBe(body.length);
+    expect(frame.length).toBe(FRAME_HEADER_BYTES + body.length);
+  });
+
+  it("refuses messages over the frame limit", () => {
+    const message = { data: "x".repeat(MAX_FRAME_BYTES) };
+
+    expect(() => encodeFrame(message)).toThrow(FrameError);
+  });
+});
+
+describe("FrameDecoder", () => {
+  it("reassembles a frame split across chunks", () => {
+    const { instance, messages } = decoder();
+    const frame = encodeFrame({ type: "join", data: { nonce: "abc" } });
+
+    instance.push(frame.subarray(0, 2));
+    instance.push(frame.subarray(2, 9));
+    expect(messages).toEqual([]);
+
+    instance.push(frame.subarray(9));
+    expect(messages).toEqual([{ type: "join", data: { nonce: "abc" } }]);
+  });
+
+  it("emits every frame of a chunk in order", () => {
+    const { instance, messages } = decoder();
+    const second = encodeFrame({ n: 2 });
+
+    instance.push(
+      concat(encodeFrame({ n: 1 }), second.subarray(0, 3)) // And a partial
+    );
+    instance.push(second.subarray(3));
+
+    expect(messages).toEqual([{ n: 1 }, { n: 2 }]);
+  });
+
+  it("drops a frame that is not a JSON object and reads on", () => {
+    const { instance, messages, errors } = decoder();
+    const invalid = new Uint8Array([0, 0, 0, 2, 0x7b, 0x7b]); // "{{"
+    const scalar = encodeFrame(42);
+
+    instance.push(concat(invalid, scalar, encodeFrame({ n: 1 })));
+
+    expect(errors.map((e) => [e.code, e.fatal])).toEqual([
+      ["invalid_json", false],
+      ["invalid_json", false],
+    ]);
+    expect(messages).toEqual([{ n: 1 }]);
+  });
+
+  it("stops for good at an oversized frame", () => {
+    const { instance, messages, errors } = decoder(16);
+    const oversized = new Uint8Array([0, 0, 0, 17]);
+
+    instance.push(concat(encodeFrame({ n: 1 }), oversized));
+    instance.push(encodeFrame({ n: 2 }));
+
+    expect(messages).toEqual([{ n: 1 }]);
+    expect(errors.map((e) => [e.code, e.fatal])).toEqual([
+      ["frame_too_large", true],
+    ]);
+  });
+
+  it("decrypts frames after the cipher is set", () => {
+    const { instance, messages } = decoder();
+    const cipher = xorCipher();
+
+    instance.push(encodeFrame({ type: "welcome" }));
+    instance.setCipher(cipher);
+    instance.push(encodeFrame({ type: "authenticated" }, cipher));
+
+    expect(messages).toEqual([{ type: "welcome" }, { type: "authenticated" }]);
+  });
+
+  it("stops for good at a frame that does not decrypt", () => {
+    const { instance, messages, errors } = decoder();
+    const cipher = xorCipher();
+    const tampered = encodeFrame({ n: 1 }, cipher);
+    tampered[FRAME_HEADER_BYTES] ^= 0xff;
+
+    instance.setCipher(cipher);
+    instance.push(concat(tampered, encodeFrame({ n: 2 }, cipher)));
+
+    expect(messages).toEqual([]);
+    expect(errors.map((e) => [e.code, e.fatal])).toEqual([
+      ["decryption_failed", true],
+    ]);
+  });
+
+  it("starts over after a reset", () => {
+    const { instance, messages } = decoder(16);
+
+    instance.push(new Uint8Array([0, 0, 0, 17]));
+    instance.reset();
+    instance.push(encodeFrame({ n: 1 }));
+
+    expect(messages).toEqual([{ n: 1 }]);
+  });
+});
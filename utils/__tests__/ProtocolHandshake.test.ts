@@ -0,0 +1,58 @@
+import {
+  MIN_PROTOCOL_VERSION,
+  PROTOCOL_VERSION,
+  REQUIRED_MESSAGE_TYPES,
+} from "@/constants/protocol";
+import {
+  checkHandshake,
+  createHandshake,
+  HandshakeInfo,
+} from "@/utils/ProtocolHandshake";
+
+const peer = (overrides: Partial<HandshakeInfo> = {}): HandshakeInfo => ({
+  ...createHandshake(),
+  ...overrides,
+});
+
+describe("checkHandshake", () => {
+  it("accepts a peer running the same app", () => {
+    expect(checkHandshake(peer(), "relay")).toBeNull();
+  });
+
+  it("accepts a peer with a different database schema", () => {
+    const local = createHandshake();
+
+    expect(
+      checkHandshake(peer({ schemaVersion: local.schemaVersion + 1 }), "relay")
+    ).toBeNull();
+  });
+
+  it("refuses a peer without a handshake", () => {
+    expect(checkHandshake(undefined, "relay")).toMatch(
+      /till runs an older app/
+    );
+  });
+
+  it("refuses a peer outside the supported protocol range", () => {
+    expect(
+      checkHandshake(peer({ protocolVersion: PROTOCOL_VERSION + 1 }), "till")
+    ).toMatch(/relay speaks protocol/);
+    expect(
+      checkHandshake(
+        peer({ protocolVersion: MIN_PROTOCOL_VERSION - 1 }),
+        "relay"
+      )
+    ).toMatch(/till speaks protocol/);
+  });
+
+  it("refuses a peer missing a required message type", () => {
+    const [required] = REQUIRED_MESSAGE_TYPES;
+    const capabilities = createHandshake().capabilities.filter(
+      (type) => type !== required
+    );
+
+    expect(checkHandshake(peer({ capabilities }), "relay")).toMatch(
+      `does not support ${required} messages`
+    );
+  });
+});
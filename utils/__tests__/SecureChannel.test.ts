@@ -0,0 +1,114 @@
+import {
+  deriveTransportCiphers,
+  generateKeyPair,
+  isPublicKey,
+  keyFingerprint,
+  KeyPair,
+} from "@/utils/SecureChannel";
+import { utf8ToBytes } from "@noble/hashes/utils";
+
+interface Device {
+  identity: KeyPair;
+  ephemeral: KeyPair;
+}
+
+const device = (): Device => ({
+  identity: generateKeyPair(),
+  ephemeral: generateKeyPair(),
+});
+
+/**
+ * Both ends of a connection, each deriving its ciphers from the public
+ * keys it received from the other
+ */
+function connect(till: Device, relay: Device, relaySeenByTill = relay) {
+  return {
+    till: deriveTransportCiphers(
+      "till",
+      {
+        ...till,
+        peerIdentity: relaySeenByTill.identity.publicKey,
+        peerEphemeral: relaySeenByTill.ephemeral.publicKey,
+      },
+      "till-nonce",
+      "relay-nonce"
+    ),
+    relay: deriveTransportCiphers(
+      "relay",
+      {
+        ...relay,
+        peerIdentity: till.identity.publicKey,
+        peerEphemeral: till.ephemeral.publicKey,
+      },
+      "till-nonce",
+      "relay-nonce"
+    ),
+  };
+}
+
+const text = (bytes: Uint8Array) => Buffer.from(bytes).toString("utf8");
+
+describe("deriveTransportCiphers", () => {
+  it("opens frames sealed by the other end, in both directions", () => {
+    const { till, relay } = connect(device(), device());
+
+    const first = till.send.encrypt(utf8ToBytes("join"));
+    const second = till.send.encrypt(utf8ToBytes("update"));
+    expect(text(relay.receive.decrypt(first))).toBe("join");
+    expect(text(relay.receive.decrypt(second))).toBe("update");
+
+    const reply = relay.send.encrypt(utf8ToBytes("authenticated"));
+    expect(reply.length).toBe("authenticated".length + relay.send.overhead);
+    expect(text(till.receive.decrypt(reply))).toBe("authenticated");
+  });
+
+  it("gives both ends the same binding key", () => {
+    const { till, relay } = connect(device(), device());
+
+    expect(till.bindingKey).toEqual(relay.bindingKey);
+  });
+
+  it("refuses an altered frame", () => {
+    const { till, relay } = connect(device(), device());
+    const sealed = till.send.encrypt(utf8ToBytes("update"));
+    sealed[0] ^= 0x01;
+
+    expect(() => relay.receive.decrypt(sealed)).toThrow();
+  });
+
+  it("refuses frames out of order", () => {
+    const { till, relay } = connect(device(), device());
+    till.send.encrypt(utf8ToBytes("dropped"));
+    const second = till.send.encrypt(utf8ToBytes("update"));
+
+    expect(() => relay.receive.decrypt(second)).toThrow();
+  });
+
+  it("does not agree with a till that saw another relay's keys", () => {
+    const relay = device();
+    const ciphers = connect(device(), relay, device());
+
+    expect(ciphers.till.bindingKey).not.toEqual(ciphers.relay.bindingKey);
+    expect(() =>
+      ciphers.relay.receive.decrypt(
+        ciphers.till.send.encrypt(utf8ToBytes("join"))
+      )
+    ).toThrow();
+  });
+});
+
+describe("public keys", () => {
+  it("accepts only 32-byte hex keys", () => {
+    const { publicKey } = generateKeyPair();
+
+    expect(isPublicKey(publicKey)).toBe(true);
+    expect(isPublicKey(publicKey.slice(2))).toBe(false);
+    expect(isPublicKey(42)).toBe(false);
+  });
+
+  it("shows a fingerprint in groups of four hex digits", () => {
+    expect(keyFingerprint("00".repeat(32))).toMatch(
+      /^[0-9A-F]{4}( [0-9A-F]{4}){7}$/
+    );
+  });
+});